@@ -0,0 +1,18 @@
+/**
+ * Generates the table of controls in the README from the default key and
+ * gamepad bindings.
+ * Run with `npm run readme`.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { DefaultButtonBindings, DefaultKeyBindings } from "../src/constants";
+import { formatKeyBindings } from "../src/utils";
+
+const README = new URL("../README.md", import.meta.url);
+
+writeFileSync(
+  README,
+  readFileSync(README, "utf8").replace(
+    /(<!-- controls -->\n)[\s\S]*?(<!-- \/controls -->)/,
+    `$1\n${formatKeyBindings(DefaultKeyBindings, DefaultButtonBindings)}\n\n$2`
+  )
+);
@@ -1,24 +1,49 @@
 /**
  * Property classes used in the game.
  */
-export { Grid, Pos, Tetromino, TetrominoBagFactory, PlayField };
-import { RotationOffset } from "./constants";
+export {
+  Grid,
+  Pos,
+  Tetromino,
+  TetrominoBagFactory,
+  MemorylessRandomizer,
+  NesRandomizer,
+  TgmRandomizer,
+  SequenceRandomizer,
+  SrsRotationSystem,
+  NrsRotationSystem,
+  ArsRotationSystem,
+  PlayField,
+};
+import {
+  ClassicTetrominos,
+  Colors,
+  PieceSets,
+  RotationOffset,
+} from "./constants";
 import {
   Cell,
   ColorRecordValue,
   LazyArraySequence,
   Nullable,
+  PieceSet,
+  PosArray,
+  Randomizer,
   RotateDirection,
   RotationState,
+  RotationSystem,
+  StandardTetrominoType,
   TetrominoType,
 } from "./types";
-import { RNG } from "./utils";
+import { RNG, getOffset, getPieceGrid, rotateGridTo } from "./utils";
 
 /**
  * TetrominoBagFactory class, contains a seed to generate a new bag.
  * @param seed seed to generate a new bag
+ * @param copies number of copies of each tetromino in a bag, 2 for a 14-bag
+ * @param bagItems tetrominoes in a bag, the standard tetrominoes by default
  */
-class TetrominoBagFactory {
+class TetrominoBagFactory implements Randomizer {
   public static readonly BAG_ITEMS: TetrominoType[] = [
     "I",
     "J",
@@ -28,25 +53,30 @@ class TetrominoBagFactory {
     "T",
     "Z",
   ];
-  constructor(public readonly seed: number) {}
+  private readonly items: ReadonlyArray<TetrominoType>;
+  constructor(
+    public readonly seed: number,
+    public readonly copies = 1,
+    public readonly bagItems: ReadonlyArray<TetrominoType> = TetrominoBagFactory.BAG_ITEMS
+  ) {
+    this.items = Array.from({ length: copies }, () => bagItems).flat();
+  }
 
   /**
    * Returns a new lazy array sequence of tetrominoes for a bag system to ensure
    * that all tetrominoes are used before repeating. Bag self-replenishes after
    * exhaustion. Can be repeatedly called to retrieve a new sequence.
    */
-  next = () =>
-    (function _next(
+  next = (): LazyArraySequence<TetrominoType> => {
+    const items = this.items;
+    return (function _next(
       seed: number,
       pointer: number,
       array: ReadonlyArray<TetrominoType>
     ): LazyArraySequence<TetrominoType> {
       // get a new shuffled array after exhausting all tetrominoes (a bag)
       if (pointer >= array.length) {
-        const shuffledArray = RNG.shuffle(
-          RNG.hash(seed),
-          TetrominoBagFactory.BAG_ITEMS
-        );
+        const shuffledArray = RNG.shuffle(RNG.hash(seed), items);
         return {
           seed: RNG.hash(seed),
           pointer: 0,
@@ -65,7 +95,177 @@ class TetrominoBagFactory {
           next: () => _next(seed, pointer + 1, array),
         } as const;
       }
-    })(this.seed, 0, RNG.shuffle(this.seed, TetrominoBagFactory.BAG_ITEMS));
+    })(this.seed, 0, RNG.shuffle(this.seed, items));
+  };
+}
+
+/**
+ * MemorylessRandomizer class, every tetromino is equally likely.
+ * @param seed seed to generate the sequence
+ * @param items tetrominoes to roll from
+ */
+class MemorylessRandomizer implements Randomizer {
+  constructor(
+    public readonly seed: number,
+    public readonly items: ReadonlyArray<TetrominoType> = TetrominoBagFactory.BAG_ITEMS
+  ) {}
+
+  /**
+   * Returns a new lazy array sequence of independently random tetrominoes.
+   * The array is the list of all tetrominoes, pointing at the current one.
+   */
+  next = () =>
+    (function _next(
+      seed: number,
+      array: ReadonlyArray<TetrominoType>
+    ): LazyArraySequence<TetrominoType> {
+      const pointer = RNG.intRange(seed, 0, array.length);
+      return {
+        seed: seed,
+        pointer: pointer,
+        value: array[pointer],
+        array: array,
+        next: () => _next(RNG.hash(seed), array),
+      } as const;
+    })(this.seed, this.items);
+}
+
+/**
+ * NesRandomizer class, rolls from 7 tetrominoes and a reroll option.
+ * Rerolls once if the reroll option or the previous tetromino is rolled.
+ * @param seed seed to generate the sequence
+ * @param items tetrominoes to roll from
+ */
+class NesRandomizer implements Randomizer {
+  constructor(
+    public readonly seed: number,
+    public readonly items: ReadonlyArray<TetrominoType> = TetrominoBagFactory.BAG_ITEMS
+  ) {}
+
+  /**
+   * Returns a new lazy array sequence of tetrominoes, unlikely to repeat.
+   * The array is the list of all tetrominoes, pointing at the current one.
+   */
+  next = () => {
+    const array = this.items;
+    return (function _next(
+      seed: number,
+      previous: Nullable<TetrominoType>
+    ): LazyArraySequence<TetrominoType> {
+      const roll = RNG.intRange(seed, 0, array.length + 1);
+      const pointer =
+        roll === array.length || array[roll] === previous
+          ? RNG.intRange(seed + 1, 0, array.length) // reroll
+          : roll;
+      return {
+        seed: seed,
+        pointer: pointer,
+        value: array[pointer],
+        array: array,
+        next: () => _next(RNG.hash(seed), array[pointer]),
+      } as const;
+    })(this.seed, null);
+  };
+}
+
+/**
+ * TgmRandomizer class, keeps a history of the last 4 tetrominoes and rolls up
+ * to 6 times to get a tetromino not in the history. The first tetromino is
+ * never S, Z or O.
+ * @param seed seed to generate the sequence
+ * @param items tetrominoes to roll from
+ */
+class TgmRandomizer implements Randomizer {
+  public static readonly HISTORY: ReadonlyArray<TetrominoType> = [
+    "Z",
+    "S",
+    "S",
+    "Z",
+  ];
+  public static readonly FIRST_ITEMS: ReadonlyArray<TetrominoType> = [
+    "I",
+    "J",
+    "L",
+    "T",
+  ];
+  public static readonly ROLLS = 6;
+  constructor(
+    public readonly seed: number,
+    public readonly items: ReadonlyArray<TetrominoType> = TetrominoBagFactory.BAG_ITEMS
+  ) {}
+
+  /**
+   * Returns a new lazy array sequence of tetrominoes.
+   * The array is the history, with the current tetromino first.
+   */
+  next = () => {
+    const items = this.items;
+    // other piece sets can start with any of their pieces
+    const firstItems = TgmRandomizer.FIRST_ITEMS.filter((item) =>
+      items.includes(item)
+    );
+    const firstChoices = firstItems.length > 0 ? firstItems : items;
+    return (function _next(
+      seed: number,
+      history: ReadonlyArray<TetrominoType>
+    ): LazyArraySequence<TetrominoType> {
+      return {
+        seed: seed,
+        pointer: 0,
+        value: history[0],
+        array: history,
+        next: () => {
+          const nextSeed = RNG.hash(seed);
+          const rolls = Array.from(
+            { length: TgmRandomizer.ROLLS },
+            (_, i) => items[RNG.intRange(nextSeed + i, 0, items.length)]
+          );
+          // take the first roll not in history, else the last roll
+          const value =
+            rolls.find((roll) => !history.includes(roll)) ??
+            rolls[rolls.length - 1];
+          return _next(nextSeed, [value, ...history.slice(0, -1)]);
+        },
+      } as const;
+    })(this.seed, [
+      firstChoices[RNG.intRange(this.seed, 0, firstChoices.length)],
+      ...TgmRandomizer.HISTORY.slice(0, -1),
+    ]);
+  };
+}
+
+/**
+ * SequenceRandomizer class, deals a fixed sequence of tetrominoes in order,
+ * repeating it after the last one, or continuing with another randomizer.
+ * @param seed seed of the sequence, kept for the next game as the sequence is fixed
+ * @param sequence tetrominoes to deal
+ * @param then randomizer to deal from after the last one, instead of repeating
+ */
+class SequenceRandomizer implements Randomizer {
+  constructor(
+    public readonly seed: number,
+    public readonly sequence: ReadonlyArray<TetrominoType>,
+    public readonly then: Nullable<Randomizer> = null
+  ) {}
+
+  /**
+   * Returns a new lazy array sequence of the fixed sequence.
+   * The pointer counts the tetrominoes dealt, past the end once repeating.
+   */
+  next = () => {
+    const { seed, sequence: array, then } = this;
+    return (function _next(pointer: number): LazyArraySequence<TetrominoType> {
+      return then !== null && pointer >= array.length
+        ? then.next()
+        : ({
+            seed: seed,
+            pointer: pointer,
+            value: array[pointer % array.length],
+            array: array,
+            next: () => _next(pointer + 1),
+          } as const);
+    })(0);
+  };
 }
 
 /**
@@ -87,6 +287,172 @@ class Pos {
   scaleX = (factor: number) => new Pos(this.x * factor, this.y);
 }
 
+/**
+ * SrsRotationSystem class, the guideline Super Rotation System.
+ * Pieces rotate in their bounding box and kick using the kicks of their piece definition.
+ * @param pieces piece set to rotate
+ */
+class SrsRotationSystem implements RotationSystem {
+  constructor(public readonly pieces: PieceSet = PieceSets.TETROMINOES) {}
+
+  getGrid = (type: TetrominoType, rotationState: RotationState): Grid =>
+    rotateGridTo(getPieceGrid(this.pieces[type]), rotationState);
+
+  rotate = (tetromino: Tetromino, rotateDirection: RotateDirection) =>
+    tetromino.rotate(rotateDirection);
+
+  getKicks = (current: Tetromino, rotated: Tetromino) =>
+    getOffset(current, rotated, this.pieces);
+}
+
+/**
+ * Checks if a piece type is one of the standard tetrominoes.
+ * @param type piece type
+ * @returns true if the piece is a standard tetromino
+ */
+const isStandardTetromino = (
+  type: TetrominoType
+): type is StandardTetrominoType =>
+  Object.keys(ClassicTetrominos).includes(type);
+
+/**
+ * NrsRotationSystem class, the Nintendo Rotation System of the NES.
+ * Tetrominoes spawn flat side up, rotate about their center and never kick.
+ * I, S and Z only have two states, with a right-handed vertical state.
+ * Other pieces rotate in their bounding box.
+ * @param pieces piece set to rotate
+ */
+class NrsRotationSystem implements RotationSystem {
+  /**
+   * Direction to rotate the spawn shape to get the vertical state of two-state tetrominoes.
+   */
+  static VERTICAL_DIRECTION: Readonly<
+    Partial<Record<StandardTetrominoType, RotateDirection>>
+  > = { I: 1, S: -1, Z: -1 };
+
+  constructor(public readonly pieces: PieceSet = PieceSets.TETROMINOES) {}
+
+  getGrid = (type: TetrominoType, rotationState: RotationState): Grid => {
+    if (!isStandardTetromino(type)) {
+      return rotateGridTo(getPieceGrid(this.pieces[type]), rotationState);
+    }
+    const grid = new Grid(ClassicTetrominos[type]);
+    const verticalDirection = NrsRotationSystem.VERTICAL_DIRECTION[type];
+    return type === "O"
+      ? grid
+      : verticalDirection === undefined
+      ? rotateGridTo(grid, rotationState)
+      : rotationState % 2 === 0
+      ? grid
+      : grid.rotate(verticalDirection);
+  };
+
+  rotate = (tetromino: Tetromino, rotateDirection: RotateDirection) => {
+    const rotationState = tetromino.addRotationState(rotateDirection);
+    return new Tetromino(
+      tetromino.pos,
+      this.getGrid(tetromino.type, rotationState),
+      tetromino.type,
+      rotationState
+    );
+  };
+
+  getKicks = () => [new Pos(0, 0)];
+}
+
+/**
+ * ArsRotationSystem class, the Arika Rotation System of TGM.
+ * Tetrominoes spawn flat side up and stay bottom-aligned in their box.
+ * I, S and Z only have two states, with a left-handed S and Z.
+ * Blocked rotations try 1 right then 1 left, except for I, and for J, L and T
+ * when the first blocked cell is in the center column. T can floor kick 1 up
+ * and I can floor kick up to 2 up when rotating to vertical.
+ * Other pieces rotate in their bounding box and use the wall kicks.
+ * @param pieces piece set to rotate
+ */
+class ArsRotationSystem implements RotationSystem {
+  static WALL_KICKS: ReadonlyArray<PosArray> = [
+    [0, 0],
+    [1, 0],
+    [-1, 0],
+  ];
+  static I_KICKS: ReadonlyArray<PosArray> = [
+    [0, 0],
+    [0, -1],
+    [0, -2],
+  ];
+
+  constructor(public readonly pieces: PieceSet = PieceSets.TETROMINOES) {}
+
+  getGrid = (type: TetrominoType, rotationState: RotationState): Grid => {
+    if (!isStandardTetromino(type)) {
+      return rotateGridTo(getPieceGrid(this.pieces[type]), rotationState);
+    }
+    const grid = new Grid(ClassicTetrominos[type]);
+    const upsideDown = grid.rotate(2);
+    return type === "O"
+      ? grid
+      : type === "I" || type === "S" || type === "Z"
+      ? rotationState % 2 === 0
+        ? grid
+        : grid.rotate(1)
+      : rotationState === 2
+      ? // bottom-align the upside down state by moving its empty row to the top
+        new Grid([
+          upsideDown.cells[upsideDown.cells.length - 1],
+          ...upsideDown.cells.slice(0, -1),
+        ])
+      : rotateGridTo(grid, rotationState);
+  };
+
+  rotate = (tetromino: Tetromino, rotateDirection: RotateDirection) => {
+    const rotationState = tetromino.addRotationState(rotateDirection);
+    return new Tetromino(
+      tetromino.pos,
+      this.getGrid(tetromino.type, rotationState),
+      tetromino.type,
+      rotationState
+    );
+  };
+
+  getKicks = (
+    current: Tetromino,
+    rotated: Tetromino,
+    playField: PlayField
+  ): ReadonlyArray<Pos> =>
+    (rotated.type === "I"
+      ? rotated.rotationState % 2 === 1
+        ? ArsRotationSystem.I_KICKS
+        : ArsRotationSystem.I_KICKS.slice(0, 1)
+      : ["J", "L", "T"].includes(rotated.type) &&
+        ArsRotationSystem.isCenterColumnBlocked(rotated, playField)
+      ? ArsRotationSystem.WALL_KICKS.slice(0, 1)
+      : rotated.type === "T"
+      ? [...ArsRotationSystem.WALL_KICKS, [0, -1] as const]
+      : ArsRotationSystem.WALL_KICKS
+    ).map((kick) => new Pos(...kick));
+
+  /**
+   * Checks if the first blocked cell of a rotated tetromino, read row by row,
+   * is in the center column of its box.
+   * @param rotated rotated tetromino
+   * @param playField playField to check against
+   * @returns true if the first blocked cell is in the center column
+   */
+  static isCenterColumnBlocked = (
+    rotated: Tetromino,
+    playField: PlayField
+  ): boolean => {
+    const blocked = rotated.grid.cells
+      .flatMap((row, y) => row.map((cell, x) => ({ cell, x, y })))
+      .find(
+        ({ cell, x, y }) =>
+          cell.filled && playField.isOccupied(rotated.pos.add(new Pos(x, y)))
+      );
+    return blocked !== undefined && blocked.x === 1;
+  };
+}
+
 /**
  * Grid class, contains a matrix of fill and color using parallel arrays.
  */
@@ -142,23 +508,25 @@ class Grid {
    * @param rotateDirection direction to rotate
    * @returns Rotated grid
    */
-  rotate = (rotateDirection: RotateDirection) =>
-    new Grid(
-      this.cells.map((row, col_index) =>
-        row.map(
-          (cell, row_index) =>
-            this.cells[
-              rotateDirection == 1
-                ? this.cells.length - 1 - row_index
-                : row_index
-            ][
-              rotateDirection == 1
-                ? col_index
-                : this.cells[0].length - 1 - col_index
-            ]
-        )
-      )
-    );
+  rotate = (rotateDirection: RotateDirection): Grid =>
+    rotateDirection === 2
+      ? this.rotate(1).rotate(1)
+      : new Grid(
+          this.cells.map((row, col_index) =>
+            row.map(
+              (cell, row_index) =>
+                this.cells[
+                  rotateDirection == 1
+                    ? this.cells.length - 1 - row_index
+                    : row_index
+                ][
+                  rotateDirection == 1
+                    ? col_index
+                    : this.cells[0].length - 1 - col_index
+                ]
+            )
+          )
+        );
 
   /**
    * Maps the grid to a new grid.
@@ -210,6 +578,22 @@ class PlayField {
       )
     );
 
+  /**
+   * Sets a single cell of the Playfield, e.g. when painting in the board editor.
+   * @param pos position of the cell
+   * @param cell new cell
+   * @returns new playfield
+   */
+  paint = (pos: Pos, cell: Cell) =>
+    new PlayField(
+      this.pos,
+      new Grid(
+        this.grid.cells.map((row, y) =>
+          row.map((c, x) => (x === pos.x && y === pos.y ? cell : c))
+        )
+      )
+    );
+
   /**
    * Checks if the Tetromino is colliding with the blocks in the Playfield, or is outside the Tetrion (the border).
    * @param tetromino tetromino to check collision with
@@ -219,16 +603,21 @@ class PlayField {
     tetromino.grid.cells.some((row, y) =>
       row.some(
         (cell, x) =>
-          cell.filled &&
-          (this.grid.getFill(
-            tetromino.pos.minus(this.pos).add(new Pos(x, y))
-          ) ||
-            this.IsOutsideTetrion(
-              tetromino.pos.minus(this.pos).add(new Pos(x, y))
-            ))
+          cell.filled && this.isOccupied(tetromino.pos.add(new Pos(x, y)))
       )
     );
 
+  /**
+   * Checks if a position is filled in the Playfield, or is outside the Tetrion (the border).
+   * @param pos position to check
+   * @returns true if the position is filled or outside the Tetrion
+   */
+  isOccupied = (pos: Pos) =>
+    Boolean(
+      this.grid.getFill(pos.minus(this.pos)) ||
+        this.IsOutsideTetrion(pos.minus(this.pos))
+    );
+
   /**
    * Checks if the pos is outside of the Tetrion (the border).
    * @param tetromino
@@ -236,8 +625,32 @@ class PlayField {
    */
   IsOutsideTetrion = (pos: Pos) =>
     pos.y >= this.height - this.pos.y ||
+    pos.y <= this.pos.y - 1 ||
     pos.x >= this.width - this.pos.x ||
     pos.x <= this.pos.x - 1;
+
+  /**
+   * Pushes garbage rows into the bottom of the playfield, shifting everything up.
+   * Rows pushed above the top of the playfield are removed.
+   * @param rows number of garbage rows
+   * @param hole column of the hole in every garbage row
+   * @returns new playfield
+   */
+  insertGarbage = (rows: number, hole: number) =>
+    new PlayField(
+      this.pos,
+      new Grid([
+        ...this.grid.cells.slice(rows),
+        ...Array.from({ length: rows }, () =>
+          this.grid.cells[0].map(
+            (_, x): Cell =>
+              x === hole
+                ? { filled: 0, color: null }
+                : { filled: 1, color: Colors.GRAY }
+          )
+        ),
+      ])
+    );
 }
 
 /**
@@ -280,13 +693,15 @@ class Tetromino {
   addRotationState = (rotateDirection: RotateDirection): RotationState => {
     const numberOfStates = Object.keys(RotationOffset).length;
     // wrap around number of states
-    return this.rotationState + rotateDirection < 0
-      ? (numberOfStates + (rotateDirection % numberOfStates)) % numberOfStates
-      : (this.rotationState + rotateDirection) % numberOfStates;
+    return (
+      (((this.rotationState + rotateDirection) % numberOfStates) +
+        numberOfStates) %
+      numberOfStates
+    );
   };
 
   /**
-   * Rotates the tetromino by 90 degrees counter-clockwise.
+   * Rotates the tetromino by 90 or 180 degrees.
    * @param direction direction to rotate
    * @returns new tetromino
    */
@@ -1,11 +1,33 @@
 /** Constants */
 
-import { Pos, Tetromino } from "./classes";
-import { Cell, ColorRecord, PosArray, TetrominoType } from "./types";
+import { Tetromino } from "./classes";
+import {
+  Cell,
+  BindCommand,
+  BufferedAction,
+  ButtonBindings,
+  ColorRecord,
+  ControlAction,
+  GameAction,
+  GameConfig,
+  GameEndReason,
+  GameMode,
+  Handling,
+  KeyBindings,
+  PieceDefinition,
+  PieceSet,
+  PieceSetType,
+  PosArray,
+  Puzzle,
+  PuzzleGoalType,
+  RotateDirection,
+  StandardTetrominoType,
+} from "./types";
 
 export const GridSettings = {
   CANVAS_WIDTH: 10,
   CANVAS_HEIGHT: 20,
+  BUFFER_HEIGHT: 20, // hidden rows above the visible playfield
   PREVIEW_WIDTH: 5,
   PREVIEW_HEIGHT: 5,
   HOLD_WIDTH: 5,
@@ -13,19 +35,15 @@ export const GridSettings = {
 } as const;
 
 export const Viewport = {
-  CANVAS_WIDTH: 250,
+  CANVAS_WIDTH: 250, // the playfield is scaled to fit within the canvas
   CANVAS_HEIGHT: 500,
   PREVIEW_WIDTH: 100,
   PREVIEW_HEIGHT: 100,
+  PREVIEW_SLOT_HEIGHT: 70,
   HOLD_WIDTH: 100,
   HOLD_HEIGHT: 100,
 } as const;
 
-export const Block = {
-  WIDTH: Viewport.CANVAS_WIDTH / GridSettings.CANVAS_WIDTH,
-  HEIGHT: Viewport.CANVAS_HEIGHT / GridSettings.CANVAS_HEIGHT,
-} as const;
-
 export const PreviewBlock = {
   WIDTH: Viewport.PREVIEW_WIDTH / GridSettings.PREVIEW_WIDTH,
   HEIGHT: Viewport.PREVIEW_HEIGHT / GridSettings.PREVIEW_HEIGHT,
@@ -45,42 +63,73 @@ export const Colors: Readonly<ColorRecord> = {
   PURPLE: "rgba(204, 102, 204, 1)",
   RED: "rgba(255, 77, 77, 1)",
   GRAY: "rgba(204, 204, 204, 1)",
+  PINK: "rgba(255, 153, 204, 1)",
+  TEAL: "rgba(51, 179, 166, 1)",
+  LIME: "rgba(204, 230, 102, 1)",
+  BROWN: "rgba(179, 128, 77, 1)",
+  INDIGO: "rgba(128, 128, 230, 1)",
 } as const;
 
 export const Settings = {
   TICK: 10,
   LOCK_DELAY: 500,
   LOCK_DELAY_RESET_COUNT: 15,
+  LOCK_RESET_POLICY: "MOVE",
+  LINE_CLEAR_DELAY: 0,
+  ENTRY_DELAY: 0,
   GRAVITY_TICK: 500,
-  TETROMINO_SPAWN_POS: new Pos(3, -1),
-  GRAVITY: new Pos(0, 1),
+  TETROMINO_SPAWN_Y: -1, // relative to the top of the visible playfield
   LINES_PER_LEVEL: 10,
   LEVEL_MAX: 20,
   LEVEL_START: 1,
   TARGET_FPS: 60,
+  MAX_GRAVITY: 20, // 20G, tetrominoes drop to the floor instantly
+  NEXT_QUEUE_LENGTH: 5,
+  NEXT_QUEUE_MIN: 1,
+  NEXT_QUEUE_MAX: 7,
+  TSPIN_UPGRADE_KICK_INDEX: 4, // the last kick always counts as a full T-spin
+  SCORED_ROWS_MAX: 4, // larger clears, e.g. with pentominoes, score as a tetris
+  MARATHON_LINE_TARGET: Infinity, // endless unless a target is set
+  SPRINT_LINES: 40,
+  ULTRA_TIME: 120000, // 2 minutes
+  CHEESE_ROWS: 18,
+  CHEESE_MESSINESS: 1,
+  CHEESE_VISIBLE_ROWS: 10,
+  BOARD_WIDTH_MIN: 4,
+  BOARD_WIDTH_MAX: 20,
+  BOARD_HEIGHT_MIN: 10,
+  BOARD_HEIGHT_MAX: 40,
+  DAS: 150,
+  ARR: 50,
+  SDF: 20, // soft drop at 20 times gravity
+  DAS_CUT: 0,
+  PRESERVE_DAS: true,
 } as const;
 
+/**
+ * Gravity in G (rows per frame) for each level.
+ */
 export const GravityLevelTable: Readonly<Record<number, number>> = {
-  1: 43,
-  2: 38,
-  3: 33,
-  4: 28,
-  5: 23,
-  6: 18,
-  7: 13,
-  8: 8,
-  9: 6,
-  10: 5,
-  11: 5,
-  12: 5,
-  13: 4,
-  14: 4,
-  15: 4,
-  16: 3,
-  17: 3,
-  18: 3,
-  19: 2,
-  20: 2,
+  1: 1 / 43,
+  2: 1 / 38,
+  3: 1 / 33,
+  4: 1 / 28,
+  5: 1 / 23,
+  6: 1 / 18,
+  7: 1 / 13,
+  8: 1 / 8,
+  9: 1 / 6,
+  10: 1 / 5,
+  11: 1 / 5,
+  12: 1 / 5,
+  13: 1 / 4,
+  14: 1 / 4,
+  15: 1 / 4,
+  16: 1 / 3,
+  17: 1 / 3,
+  18: 1 / 3,
+  19: 1 / 2,
+  20: 1 / 2,
 } as const;
 
 export const ScoringRules: Readonly<Record<string, number>> = {
@@ -88,7 +137,20 @@ export const ScoringRules: Readonly<Record<string, number>> = {
   DOUBLE: 300,
   TRIPLE: 500,
   TETRIS: 800,
+  T_SPIN: 400,
+  T_SPIN_SINGLE: 800,
+  T_SPIN_DOUBLE: 1200,
+  T_SPIN_TRIPLE: 1600,
+  T_SPIN_MINI: 100,
+  T_SPIN_MINI_SINGLE: 200,
+  T_SPIN_MINI_DOUBLE: 400,
+  PERFECT_CLEAR_SINGLE: 800,
+  PERFECT_CLEAR_DOUBLE: 1200,
+  PERFECT_CLEAR_TRIPLE: 1800,
+  PERFECT_CLEAR_TETRIS: 2000,
+  PERFECT_CLEAR_B2B_TETRIS: 3200,
   COMBO: 50,
+  BACK_TO_BACK_MULTIPLIER: 1.5,
   SOFT_DROP: 1,
   HARD_DROP: 2,
 } as const;
@@ -100,13 +162,293 @@ export const ScoreTable: Readonly<Record<string, keyof typeof ScoringRules>> = {
   4: "TETRIS",
 } as const;
 
+export const PerfectClearScoreTable: Readonly<
+  Record<string, keyof typeof ScoringRules>
+> = {
+  1: "PERFECT_CLEAR_SINGLE",
+  2: "PERFECT_CLEAR_DOUBLE",
+  3: "PERFECT_CLEAR_TRIPLE",
+  4: "PERFECT_CLEAR_TETRIS",
+} as const;
+
+/**
+ * Clear actions that continue a back-to-back chain.
+ */
+export const DifficultClearActions: ReadonlyArray<keyof typeof ScoringRules> = [
+  "TETRIS",
+  "T_SPIN_SINGLE",
+  "T_SPIN_DOUBLE",
+  "T_SPIN_TRIPLE",
+  "T_SPIN_MINI_SINGLE",
+  "T_SPIN_MINI_DOUBLE",
+] as const;
+
+/**
+ * Garbage rows sent by each clear action.
+ */
+export const AttackTable: Readonly<Record<string, number>> = {
+  SINGLE: 0,
+  DOUBLE: 1,
+  TRIPLE: 2,
+  TETRIS: 4,
+  T_SPIN_SINGLE: 2,
+  T_SPIN_DOUBLE: 4,
+  T_SPIN_TRIPLE: 6,
+  T_SPIN_MINI_SINGLE: 0,
+  T_SPIN_MINI_DOUBLE: 1,
+  PERFECT_CLEAR_SINGLE: 10,
+  PERFECT_CLEAR_DOUBLE: 10,
+  PERFECT_CLEAR_TRIPLE: 10,
+  PERFECT_CLEAR_TETRIS: 10,
+  PERFECT_CLEAR_B2B_TETRIS: 10,
+  BACK_TO_BACK_BONUS: 1,
+} as const;
+
+export const TSpinScoreTable: Readonly<
+  Record<string, keyof typeof ScoringRules>
+> = {
+  0: "T_SPIN",
+  1: "T_SPIN_SINGLE",
+  2: "T_SPIN_DOUBLE",
+  3: "T_SPIN_TRIPLE",
+} as const;
+
+export const TSpinMiniScoreTable: Readonly<
+  Record<string, keyof typeof ScoringRules>
+> = {
+  0: "T_SPIN_MINI",
+  1: "T_SPIN_MINI_SINGLE",
+  2: "T_SPIN_MINI_DOUBLE",
+} as const;
+
+/**
+ * Corners of the T tetromino's 3x3 grid, used by the 3-corner T-spin rule.
+ */
+export const TSpinCorners: ReadonlyArray<PosArray> = [
+  [0, 0],
+  [2, 0],
+  [0, 2],
+  [2, 2],
+] as const;
+
+/**
+ * Corners on the pointing side of the T tetromino, for each rotation state.
+ */
+export const TSpinFrontCorners: Readonly<
+  Record<number, ReadonlyArray<PosArray>>
+> = {
+  0: [
+    [0, 0],
+    [2, 0],
+  ],
+  1: [
+    [2, 0],
+    [2, 2],
+  ],
+  2: [
+    [0, 2],
+    [2, 2],
+  ],
+  3: [
+    [0, 0],
+    [0, 2],
+  ],
+} as const;
+
+export const GameEndReasonText: Readonly<Record<GameEndReason, string>> = {
+  BLOCK_OUT: "Block Out",
+  LOCK_OUT: "Lock Out",
+  TOP_OUT: "Top Out",
+  COMPLETED: "Goal Reached",
+  FAILED: "Puzzle Failed",
+} as const;
+
+export const GameModeText: Readonly<Record<GameMode, string>> = {
+  MARATHON: "Marathon",
+  SPRINT: "Sprint",
+  ULTRA: "Ultra",
+  CHEESE: "Cheese Race",
+  PUZZLE: "Puzzle",
+} as const;
+
+/**
+ * Goals a puzzle can have.
+ */
+export const PuzzleGoalTypes: ReadonlyArray<PuzzleGoalType> = [
+  "CLEAR_LINES",
+  "PERFECT_CLEAR",
+  "T_SPIN_DOUBLE",
+  "SURVIVE",
+] as const;
+
+/**
+ * Puzzle of the puzzle mode when none is loaded, a tetris with the I piece.
+ */
+export const DefaultPuzzle: Puzzle = {
+  board: ["#########.", "#########.", "#########.", "#########."],
+  sequence: ["O", "I"],
+  hold: null,
+  goal: { type: "CLEAR_LINES", count: 4 },
+} as const;
+
+export const DefaultHandling: Handling = {
+  das: Settings.DAS,
+  arr: Settings.ARR,
+  sdf: Settings.SDF,
+  dasCut: Settings.DAS_CUT,
+  preserveDas: Settings.PRESERVE_DAS,
+} as const;
+
+export const DefaultGameConfig: GameConfig = {
+  lockDelay: Settings.LOCK_DELAY,
+  lockDelayResetCount: Settings.LOCK_DELAY_RESET_COUNT,
+  lockResetPolicy: Settings.LOCK_RESET_POLICY,
+  lineClearDelay: Settings.LINE_CLEAR_DELAY,
+  entryDelay: Settings.ENTRY_DELAY,
+  levelStart: Settings.LEVEL_START,
+  levelMax: Settings.LEVEL_MAX,
+  linesPerLevel: Settings.LINES_PER_LEVEL,
+  gravityTable: GravityLevelTable,
+  scoringRules: ScoringRules,
+  boardWidth: GridSettings.CANVAS_WIDTH,
+  boardHeight: GridSettings.CANVAS_HEIGHT,
+  bufferHeight: GridSettings.BUFFER_HEIGHT,
+  nextQueueLength: Settings.NEXT_QUEUE_LENGTH,
+  randomizer: "BAG_7",
+  rotationSystem: "SRS",
+  pieces: "TETROMINOES",
+  mode: "MARATHON",
+  marathonLineTarget: Settings.MARATHON_LINE_TARGET,
+  cheeseRows: Settings.CHEESE_ROWS,
+  cheeseMessiness: Settings.CHEESE_MESSINESS,
+  cheeseVisibleRows: Settings.CHEESE_VISIBLE_ROWS,
+  puzzle: DefaultPuzzle,
+  handling: DefaultHandling,
+} as const;
+
+/**
+ * Rotate direction of each rotate action, for the Initial Rotation System.
+ */
+export const RotateActionDirection: Readonly<
+  Partial<Record<GameAction, RotateDirection>>
+> = {
+  ROTATE_CW: 1,
+  ROTATE_CCW: -1,
+  ROTATE_180: 2,
+} as const;
+
+/**
+ * Rotate action of each rotate direction, to buffer rotations during delays.
+ */
+export const RotateDirectionAction: Readonly<
+  Record<RotateDirection, BufferedAction>
+> = {
+  1: "ROTATE_CW",
+  [-1]: "ROTATE_CCW",
+  2: "ROTATE_180",
+} as const;
+
+/**
+ * Direction of each move action, for auto shift.
+ */
+export const ShiftActionDirection: Readonly<
+  Partial<Record<GameAction, -1 | 1>>
+> = {
+  MOVE_LEFT: -1,
+  MOVE_RIGHT: 1,
+} as const;
+
 export const Controls = {
-  HOLD_DELAY: 150,
-  HOLD_INTERVAL: 50,
+  BINDINGS_STORAGE_KEY: "keyBindings",
+  BUTTON_BINDINGS_STORAGE_KEY: "buttonBindings",
+  HANDLING_STORAGE_KEY: "handling",
+  STICK_DEADZONE: 0.5, // how far the left stick is tilted to press a direction
+  TAP_TIME: 250, // ms a touch can last to be a tap
+  TAP_DISTANCE: 10, // px a touch can move to be a tap
+  FLICK_TIME: 300, // ms a swipe down can last to be a flick
+  FLICK_CELLS: 2, // cells a swipe down moves to be a flick
+} as const;
+
+/**
+ * Key bindings before any are rebound, also listed in the README.
+ */
+export const DefaultKeyBindings: KeyBindings = {
+  MOVE_LEFT: ["KeyA", "ArrowLeft"],
+  MOVE_RIGHT: ["KeyD", "ArrowRight"],
+  ROTATE_CW: ["KeyW", "ArrowUp"],
+  ROTATE_CCW: ["KeyZ"],
+  ROTATE_180: ["KeyX"],
+  HOLD: ["KeyC"],
+  SOFT_DROP: ["KeyS", "ArrowDown"],
+  HARD_DROP: ["Space"],
+  PAUSE: ["KeyP"],
+  RESTART: ["KeyR"],
+  EDIT: ["KeyE"],
+} as const;
+
+/**
+ * Gamepad buttons bound before any are rebound, by their index in the
+ * standard mapping. The left stick also moves and soft drops.
+ */
+export const DefaultButtonBindings: ButtonBindings = {
+  MOVE_LEFT: [14],
+  MOVE_RIGHT: [15],
+  ROTATE_CW: [0],
+  ROTATE_CCW: [1],
+  ROTATE_180: [3],
+  HOLD: [4, 5],
+  SOFT_DROP: [13],
+  HARD_DROP: [12],
+  PAUSE: [9],
+  RESTART: [8],
+  EDIT: [],
+} as const;
+
+/**
+ * Names of the gamepad buttons in the standard mapping.
+ */
+export const GamepadButtonText: ReadonlyArray<string> = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Back",
+  "Start",
+  "LS",
+  "RS",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+  "Home",
+] as const;
+
+export const ControlActionText: Readonly<Record<ControlAction, string>> = {
+  MOVE_LEFT: "Move Left",
+  MOVE_RIGHT: "Move Right",
+  ROTATE_CW: "Spin Right",
+  ROTATE_CCW: "Spin Left",
+  ROTATE_180: "Spin 180",
+  HOLD: "Hold",
+  SOFT_DROP: "Soft Drop",
+  HARD_DROP: "Hard Drop",
+  PAUSE: "Pause/Resume",
+  RESTART: "Restart(only on game end)",
+  EDIT: "Edit Board",
+} as const;
+
+export const BindCommandText: Readonly<Record<BindCommand, string>> = {
+  bind: "Bind",
+  pad: "Pad",
+  clear: "Clear",
 } as const;
 
 export const Tetrominos: Readonly<
-  Record<TetrominoType, ReadonlyArray<ReadonlyArray<Cell>>>
+  Record<StandardTetrominoType, ReadonlyArray<ReadonlyArray<Cell>>>
 > = {
   I: [
     [
@@ -254,8 +596,147 @@ export const Tetrominos: Readonly<
   ],
 } as const;
 
+/**
+ * Spawn shapes of the classic rotation systems (NRS and ARS), flat side up.
+ */
+export const ClassicTetrominos: Readonly<
+  Record<StandardTetrominoType, ReadonlyArray<ReadonlyArray<Cell>>>
+> = {
+  I: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 1, color: Colors.CYAN },
+      { filled: 1, color: Colors.CYAN },
+      { filled: 1, color: Colors.CYAN },
+      { filled: 1, color: Colors.CYAN },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+  ],
+  J: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 1, color: Colors.BLUE },
+      { filled: 1, color: Colors.BLUE },
+      { filled: 1, color: Colors.BLUE },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.BLUE },
+    ],
+  ],
+  L: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 1, color: Colors.ORANGE },
+      { filled: 1, color: Colors.ORANGE },
+      { filled: 1, color: Colors.ORANGE },
+    ],
+    [
+      { filled: 1, color: Colors.ORANGE },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+  ],
+  O: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.YELLOW },
+      { filled: 1, color: Colors.YELLOW },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.YELLOW },
+      { filled: 1, color: Colors.YELLOW },
+    ],
+  ],
+  S: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.GREEN },
+      { filled: 1, color: Colors.GREEN },
+    ],
+    [
+      { filled: 1, color: Colors.GREEN },
+      { filled: 1, color: Colors.GREEN },
+      { filled: 0, color: null },
+    ],
+  ],
+  T: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 1, color: Colors.PURPLE },
+      { filled: 1, color: Colors.PURPLE },
+      { filled: 1, color: Colors.PURPLE },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.PURPLE },
+      { filled: 0, color: null },
+    ],
+  ],
+  Z: [
+    [
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 1, color: Colors.RED },
+      { filled: 1, color: Colors.RED },
+      { filled: 0, color: null },
+    ],
+    [
+      { filled: 0, color: null },
+      { filled: 1, color: Colors.RED },
+      { filled: 1, color: Colors.RED },
+    ],
+  ],
+} as const;
+
 export const RotationOffset: Readonly<
-  Record<number, Readonly<Record<TetrominoType, ReadonlyArray<PosArray>>>>
+  Record<
+    number,
+    Readonly<Record<StandardTetrominoType, ReadonlyArray<PosArray>>>
+  >
 > = {
   0: {
     J: [
@@ -438,3 +919,261 @@ export const RotationOffset: Readonly<
     O: [[-1, 0]],
   },
 } as const;
+
+/**
+ * SRS+ kicks for 180 degree rotations, keyed by the starting rotation state.
+ * Kicks are applied on top of the RotationOffset correction between the two states.
+ */
+export const RotationOffset180: Readonly<
+  Record<number, ReadonlyArray<PosArray>>
+> = {
+  0: [
+    [0, 0],
+    [0, 1],
+    [1, 1],
+    [-1, 1],
+    [1, 0],
+    [-1, 0],
+  ],
+  1: [
+    [0, 0],
+    [1, 0],
+    [1, 2],
+    [1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+  2: [
+    [0, 0],
+    [0, -1],
+    [-1, -1],
+    [1, -1],
+    [-1, 0],
+    [1, 0],
+  ],
+  3: [
+    [0, 0],
+    [-1, 0],
+    [-1, 2],
+    [-1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+} as const;
+
+/**
+ * Rotation states of a piece, in order.
+ */
+const ROTATION_STATES = [0, 1, 2, 3] as const;
+
+/**
+ * SRS offsets of a piece rotating about the center cell of its box, like T.
+ */
+const CellCenteredKicks = ROTATION_STATES.map(
+  (state) => RotationOffset[state].T
+);
+
+/**
+ * SRS offsets of a piece rotating about the center point of an even box, like I.
+ */
+const PointCenteredKicks = ROTATION_STATES.map(
+  (state) => RotationOffset[state].I
+);
+
+/**
+ * Offsets of a piece that never needs to kick, like a monomino.
+ */
+const NoKicks = ROTATION_STATES.map(() => [[0, 0]] as ReadonlyArray<PosArray>);
+
+/**
+ * Defines a standard tetromino from its spawn shape and offsets.
+ * @param type type of the standard tetromino
+ * @returns piece definition
+ */
+const getStandardPiece = (type: StandardTetrominoType): PieceDefinition => ({
+  shape: Tetrominos[type].map((row) => row.map((cell) => cell.filled)),
+  color: Tetrominos[type].flat().find((cell) => cell.filled)!.color!,
+  kicks: ROTATION_STATES.map((state) => RotationOffset[state][type]),
+  spawnOffset: [0, 0],
+});
+
+/**
+ * Shipped piece sets. Pentominoes and smaller pieces are suffixed with their
+ * size, so they are never mistaken for a standard tetromino.
+ */
+export const PieceSets: Readonly<Record<PieceSetType, PieceSet>> = {
+  TETROMINOES: {
+    I: getStandardPiece("I"),
+    J: getStandardPiece("J"),
+    L: getStandardPiece("L"),
+    O: getStandardPiece("O"),
+    S: getStandardPiece("S"),
+    T: getStandardPiece("T"),
+    Z: getStandardPiece("Z"),
+  },
+  PENTOMINOES: {
+    F5: {
+      shape: [
+        [0, 1, 1],
+        [1, 1, 0],
+        [0, 1, 0],
+      ],
+      color: Colors.PINK,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    I5: {
+      shape: [
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0],
+        [1, 1, 1, 1, 1],
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0],
+      ],
+      color: Colors.CYAN,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, -1],
+    },
+    L5: {
+      shape: [
+        [0, 0, 0, 1],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      color: Colors.ORANGE,
+      kicks: PointCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    N5: {
+      shape: [
+        [0, 0, 1, 1],
+        [1, 1, 1, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      color: Colors.BROWN,
+      kicks: PointCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    P5: {
+      shape: [
+        [0, 1, 1],
+        [1, 1, 1],
+        [0, 0, 0],
+      ],
+      color: Colors.YELLOW,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    T5: {
+      shape: [
+        [1, 1, 1],
+        [0, 1, 0],
+        [0, 1, 0],
+      ],
+      color: Colors.PURPLE,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    U5: {
+      shape: [
+        [1, 0, 1],
+        [1, 1, 1],
+        [0, 0, 0],
+      ],
+      color: Colors.INDIGO,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    V5: {
+      shape: [
+        [1, 0, 0],
+        [1, 0, 0],
+        [1, 1, 1],
+      ],
+      color: Colors.BLUE,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    W5: {
+      shape: [
+        [1, 0, 0],
+        [1, 1, 0],
+        [0, 1, 1],
+      ],
+      color: Colors.LIME,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    X5: {
+      shape: [
+        [0, 1, 0],
+        [1, 1, 1],
+        [0, 1, 0],
+      ],
+      color: Colors.TEAL,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    Y5: {
+      shape: [
+        [0, 0, 1, 0],
+        [1, 1, 1, 1],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      color: Colors.GREEN,
+      kicks: PointCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    Z5: {
+      shape: [
+        [1, 1, 0],
+        [0, 1, 0],
+        [0, 1, 1],
+      ],
+      color: Colors.RED,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+  },
+  SMALL: {
+    I1: {
+      shape: [[1]],
+      color: Colors.YELLOW,
+      kicks: NoKicks,
+      spawnOffset: [0, 1],
+    },
+    I2: {
+      shape: [
+        [0, 0, 0],
+        [1, 1, 0],
+        [0, 0, 0],
+      ],
+      color: Colors.GREEN,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    I3: {
+      shape: [
+        [0, 0, 0],
+        [1, 1, 1],
+        [0, 0, 0],
+      ],
+      color: Colors.CYAN,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+    L3: {
+      shape: [
+        [1, 0, 0],
+        [1, 1, 0],
+        [0, 0, 0],
+      ],
+      color: Colors.ORANGE,
+      kicks: CellCenteredKicks,
+      spawnOffset: [0, 0],
+    },
+  },
+} as const;
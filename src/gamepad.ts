@@ -0,0 +1,119 @@
+/**
+ * Gamepad module. Polls the Gamepad API into presses and releases of
+ * control actions, so a gamepad plays through the same actions as the keys.
+ */
+import { Observable, interval } from "rxjs";
+import { map, mergeMap, pairwise, withLatestFrom } from "rxjs/operators";
+import { Controls, Settings } from "./constants";
+import {
+  ActionInput,
+  ButtonBindings,
+  ControlAction,
+  GamepadState,
+  Nullable,
+} from "./types";
+
+/**
+ * Actions of the left stick, pressed when it is tilted past the deadzone.
+ */
+const StickActions: Readonly<
+  Partial<Record<ControlAction, (axes: ReadonlyArray<number>) => boolean>>
+> = {
+  MOVE_LEFT: ([x]) => x <= -Controls.STICK_DEADZONE,
+  MOVE_RIGHT: ([x]) => x >= Controls.STICK_DEADZONE,
+  SOFT_DROP: ([, y]) => y >= Controls.STICK_DEADZONE,
+} as const;
+
+/**
+ * Gets the buttons pressed on any of the gamepads.
+ * @param gamepads connected gamepads, null for an empty slot
+ * @returns indices of the pressed buttons
+ */
+export const getPressedButtons = (
+  gamepads: ReadonlyArray<Nullable<GamepadState>>
+): ReadonlyArray<number> =>
+  gamepads
+    .flatMap((gamepad) =>
+      gamepad === null
+        ? []
+        : gamepad.buttons.flatMap((button, i) => (button.pressed ? [i] : []))
+    )
+    .filter((button, i, buttons) => buttons.indexOf(button) === i);
+
+/**
+ * Gets the actions held on any of the gamepads, from the bound buttons
+ * (including the d-pad) and the left stick.
+ * @param gamepads connected gamepads, null for an empty slot
+ * @param bindings gamepad button bindings
+ * @returns held actions
+ */
+export const getPressedActions = (
+  gamepads: ReadonlyArray<Nullable<GamepadState>>,
+  bindings: ButtonBindings
+): ReadonlyArray<ControlAction> => {
+  const buttons = getPressedButtons(gamepads);
+  return (Object.keys(bindings) as ControlAction[]).filter(
+    (action) =>
+      bindings[action].some((button) => buttons.includes(button)) ||
+      gamepads.some(
+        (gamepad) =>
+          gamepad !== null && (StickActions[action]?.(gamepad.axes) ?? false)
+      )
+  );
+};
+
+/**
+ * Gets the presses and releases between two polls of the held actions.
+ * @param previous actions held on the previous poll
+ * @param current actions held now
+ * @returns released and pressed actions
+ */
+export const getActionInputs = (
+  previous: ReadonlyArray<ControlAction>,
+  current: ReadonlyArray<ControlAction>
+): ReadonlyArray<ActionInput> => [
+  ...previous
+    .filter((action) => !current.includes(action))
+    .map((action) => ({ action: action, pressed: false })),
+  ...current
+    .filter((action) => !previous.includes(action))
+    .map((action) => ({ action: action, pressed: true })),
+];
+
+/**
+ * Gamepad input, polls the gamepads and emits when an action is pressed or released.
+ * @param getGamepads gets the connected gamepads, e.g. navigator.getGamepads
+ * @param bindings$ gamepad button bindings
+ * @param period time in ms between polls
+ * @returns Observable of ActionInput
+ */
+export const fromGamepad = (
+  getGamepads: () => ReadonlyArray<Nullable<GamepadState>>,
+  bindings$: Observable<ButtonBindings>,
+  period: number = Settings.TICK
+): Observable<ActionInput> =>
+  interval(period).pipe(
+    withLatestFrom(bindings$),
+    map(([_, bindings]) => getPressedActions(getGamepads(), bindings)),
+    pairwise(),
+    mergeMap(([previous, current]) => getActionInputs(previous, current))
+  );
+
+/**
+ * Gamepad buttons, polls the gamepads and emits a button when it is pressed,
+ * e.g. to rebind it.
+ * @param getGamepads gets the connected gamepads, e.g. navigator.getGamepads
+ * @param period time in ms between polls
+ * @returns Observable of button indices
+ */
+export const fromGamepadButtons = (
+  getGamepads: () => ReadonlyArray<Nullable<GamepadState>>,
+  period: number = Settings.TICK
+): Observable<number> =>
+  interval(period).pipe(
+    map(() => getPressedButtons(getGamepads())),
+    pairwise(),
+    mergeMap(([previous, current]) =>
+      current.filter((button) => !previous.includes(button))
+    )
+  );
@@ -4,117 +4,366 @@
  */
 import {
   EMPTY,
+  Observable,
   Subscription,
   fromEvent,
   interval,
   merge,
   of,
-  timer,
+  race,
 } from "rxjs";
 import {
   combineLatestWith,
   filter,
   map,
-  mergeAll,
   scan,
+  share,
+  shareReplay,
   startWith,
   switchMap,
+  take,
   takeUntil,
+  tap,
   withLatestFrom,
 } from "rxjs/operators";
-import { Controls, Settings } from "./constants";
+import { Settings } from "./constants";
 import { Pos } from "./classes";
+import { fromGamepad, fromGamepadButtons } from "./gamepad";
+import { fromGestures, fromTouchButtons } from "./touch";
 import {
+  Edit,
+  EditBrush,
+  EditHold,
+  EditQueue,
   HardDrop,
+  HeldInput,
   Hold,
+  Paint,
   Pause,
+  PlayEdited,
   Restart,
   Rotate,
-  SoftDrop,
+  SetHandling,
   Tick,
   Translate,
-  initialState,
+  getFreshState,
+  getGameConfig,
   reduceState,
 } from "./state";
 import "./style.css";
-import { Key, KeyEvent } from "./types";
+import {
+  BindCommand,
+  ButtonBindings,
+  ControlAction,
+  Effect,
+  GameAction,
+  Gesture,
+  KeyBindings,
+  KeyEvent,
+  Rebound,
+} from "./types";
+import {
+  bindKey,
+  clearKeys,
+  getConflict,
+  getUrlConfig,
+  loadButtonBindings,
+  loadHandling,
+  loadKeyBindings,
+  parsePuzzle,
+  saveButtonBindings,
+  saveHandling,
+  saveKeyBindings,
+  setHandlingValue,
+} from "./utils";
 import { View } from "./view";
 
 export function main() {
   const view = new View();
 
   /**
-   * Standard One-time Key Event
+   * Connected gamepads, none where the Gamepad API is not supported.
+   */
+  const getGamepads = () =>
+    typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+
+  /**
+   * Escape pressed while binding, cancels the rebind.
+   */
+  const cancelBind$ = fromEvent<KeyboardEvent>(document, "keydown", {
+    capture: true,
+  }).pipe(
+    filter(({ code }) => code === "Escape"),
+    take(1),
+    tap((event) => {
+      event.preventDefault();
+      event.stopPropagation();
+    }),
+    map(
+      () =>
+        (keys: KeyBindings, buttons: ButtonBindings): Rebound =>
+          [keys, buttons, null]
+    )
+  );
+
+  /**
+   * Rebinds of an action for each command of the bindings table.
+   */
+  const rebindCommands: Readonly<
+    Record<
+      BindCommand,
+      (
+        action: ControlAction
+      ) => Observable<(keys: KeyBindings, buttons: ButtonBindings) => Rebound>
+    >
+  > = {
+    bind: (action) =>
+      fromEvent<KeyboardEvent>(document, "keydown", { capture: true }).pipe(
+        take(1),
+        tap((event) => {
+          event.preventDefault();
+          event.stopPropagation();
+        }),
+        map(
+          ({ code }) =>
+            (keys: KeyBindings, buttons: ButtonBindings): Rebound =>
+              code === "Escape"
+                ? [keys, buttons, null]
+                : [
+                    bindKey(keys, action, code),
+                    buttons,
+                    getConflict(keys, action, code),
+                  ]
+        )
+      ),
+    pad: (action) =>
+      race(
+        fromGamepadButtons(getGamepads).pipe(
+          take(1),
+          map(
+            (button) =>
+              (keys: KeyBindings, buttons: ButtonBindings): Rebound =>
+                [
+                  keys,
+                  bindKey(buttons, action, button),
+                  getConflict(buttons, action, button),
+                ]
+          )
+        ),
+        cancelBind$
+      ),
+    clear: (action) =>
+      of(
+        (keys: KeyBindings, buttons: ButtonBindings): Rebound => [
+          clearKeys(keys, action),
+          clearKeys(buttons, action),
+          null,
+        ]
+      ),
+  };
+
+  /**
+   * Key and gamepad bindings, with the input unbound from another action by
+   * the last rebind. An action is rebound by clicking Bind and pressing a key,
+   * which is captured before it reaches the game controls, or by clicking Pad
+   * and pressing a gamepad button.
+   */
+  const rebound$ = fromEvent<MouseEvent>(view.bindings, "click").pipe(
+    map(({ target }) => (target as HTMLElement).dataset),
+    filter(
+      ({ action, command }) => action !== undefined && command !== undefined
+    ),
+    map(
+      ({ action, command }) =>
+        [action as ControlAction, command as BindCommand] as const
+    ),
+    tap(([action, command]) => {
+      if (command === "bind") {
+        view.promptKey(action);
+      } else if (command === "pad") {
+        view.promptButton(action);
+      }
+    }),
+    switchMap(([action, command]) => rebindCommands[command](action)),
+    scan(([keys, buttons], rebind) => rebind(keys, buttons), [
+      loadKeyBindings(localStorage),
+      loadButtonBindings(localStorage),
+      null,
+    ] as Rebound),
+    startWith([
+      loadKeyBindings(localStorage),
+      loadButtonBindings(localStorage),
+      null,
+    ] as Rebound),
+    shareReplay(1)
+  );
+  const bindings$ = rebound$.pipe(map(([keys]) => keys));
+  const buttonBindings$ = rebound$.pipe(map(([, buttons]) => buttons));
+
+  /**
+   * Presses and releases of actions on the gamepads and the on-screen buttons.
+   */
+  const actionInput$ = merge(
+    fromGamepad(getGamepads, buttonBindings$),
+    fromTouchButtons(view.touchControls)
+  ).pipe(share());
+
+  /**
+   * Handling of the player, changed in the settings while paused.
+   */
+  const handling$ = fromEvent(view.handling, "change").pipe(
+    map(({ target }) => target as HTMLInputElement),
+    scan(
+      (handling, input) =>
+        setHandlingValue(
+          handling,
+          input.name,
+          input.type === "checkbox" ? input.checked : input.value
+        ),
+      loadHandling(localStorage)
+    ),
+    startWith(loadHandling(localStorage)),
+    shareReplay(1)
+  );
+
+  /**
+   * Key Event of an action, for the keys currently bound to it.
    * @param event Key event
-   * @param keyCodes List of accepted key codes
+   * @param action Action of the keys
    * @returns Observable of key event
    */
-  const fromKeyNoRepeat = (event: KeyEvent, keyCodes: Key[]) =>
+  const fromKey = (event: KeyEvent, action: ControlAction) =>
     fromEvent<KeyboardEvent>(document, event).pipe(
-      filter(({ code }) => keyCodes.includes(code as Key)),
-      filter(({ repeat }) => !repeat)
+      withLatestFrom(bindings$),
+      filter(([{ code }, bindings]) => bindings[action].includes(code)),
+      map(([keyEvent]) => keyEvent)
     );
 
   /**
-   * Key event, can be used for hold without delay, or Delayed Auto Shift (DAS)
-   * A stream that emits the return value of the provided function and then emits
-   * in intervals after a delay.
-   * @param keyCodes List of accepted key codes
-   * @param f Function to be executed
-   * @param delay_ms Delay in milliseconds
-   * @returns
+   * Standard One-time Key Event, ignored while typing in the board editor.
+   * @param event Key event
+   * @param action Action of the keys
+   * @returns Observable of key event
    */
-  const fromHold = <T>(keyCodes: Key[], f: () => T, delay_ms: number) =>
-    fromKeyNoRepeat("keydown", keyCodes).pipe(
-      map(() =>
-        // interval with initial delay
-        timer(delay_ms, Controls.HOLD_INTERVAL).pipe(
-          // overwrite initial delay with startWith
-          startWith(f()),
-          map(f),
-          takeUntil(
-            fromEvent<KeyboardEvent>(document, "keyup").pipe(
-              filter(({ code }) => keyCodes.includes(code as Key))
-            )
-          )
-        )
-      ),
-      mergeAll() // merge all observables from map
+  const fromKeyNoRepeat = (event: KeyEvent, action: ControlAction) =>
+    fromKey(event, action).pipe(
+      filter(({ repeat }) => !repeat),
+      filter(({ target }) => !(target instanceof HTMLInputElement))
+    );
+
+  /**
+   * Press of an action, from its keys, gamepad buttons or on-screen buttons.
+   * @param action Action of the inputs
+   * @returns Observable of the presses
+   */
+  const fromPress = (action: ControlAction) =>
+    merge(
+      fromKeyNoRepeat("keydown", action),
+      actionInput$.pipe(
+        filter((input) => input.action === action && input.pressed)
+      )
+    );
+
+  /**
+   * Release of an action, from its keys, gamepad buttons or on-screen buttons.
+   * @param action Action of the inputs
+   * @returns Observable of the releases
+   */
+  const fromRelease = (action: ControlAction) =>
+    merge(
+      fromKey("keyup", action),
+      actionInput$.pipe(
+        filter((input) => input.action === action && !input.pressed)
+      )
+    );
+
+  /**
+   * Held Input Event, emits when a game action is pressed or released, so the
+   * game knows which actions are held down (e.g. for IRS, IHS and auto shift).
+   * A release is never ignored, so an input cannot stay held down.
+   * @param action Game action of the inputs
+   * @returns Observable of HeldInput
+   */
+  const fromHeldAction = (action: GameAction) =>
+    merge(
+      fromPress(action).pipe(map(() => new HeldInput(action, true))),
+      fromRelease(action).pipe(map(() => new HeldInput(action, false)))
     );
 
-  const w$ = fromKeyNoRepeat("keydown", ["KeyW", "ArrowUp"]).pipe(
-    map(() => new Rotate(1))
+  const rotateCw$ = fromPress("ROTATE_CW").pipe(map(() => new Rotate(1)));
+  const rotateCcw$ = fromPress("ROTATE_CCW").pipe(map(() => new Rotate(-1)));
+  const rotate180$ = fromPress("ROTATE_180").pipe(map(() => new Rotate(2)));
+  const restart$ = fromPress("RESTART").pipe(map(() => new Restart()));
+  const hold$ = fromPress("HOLD").pipe(map(() => new Hold()));
+  const hardDrop$ = fromPress("HARD_DROP").pipe(map(() => new HardDrop()));
+
+  const edit$ = fromPress("EDIT").pipe(map(() => new Edit()));
+
+  /**
+   * Effects of the touch gestures on the board.
+   */
+  const gestureEffects: Readonly<Record<Gesture, () => Effect>> = {
+    DRAG_LEFT: () => new Translate(new Pos(-1, 0)),
+    DRAG_RIGHT: () => new Translate(new Pos(1, 0)),
+    TAP: () => new Rotate(1),
+    TWO_FINGER_TAP: () => new Hold(),
+    FLICK: () => new HardDrop(),
+  } as const;
+  const gesture$ = fromGestures(view.svg, view.getCellWidth).pipe(
+    map((gesture) => gestureEffects[gesture]())
   );
-  const a$ = fromHold(
-    ["KeyA", "ArrowLeft"],
-    () => new Translate(new Pos(-1, 0)),
-    Controls.HOLD_DELAY
+
+  // board editor, paints cells while the mouse is dragged on the canvas
+  const paint$ = fromEvent<MouseEvent>(view.svg, "mousedown").pipe(
+    switchMap((down) =>
+      fromEvent<MouseEvent>(view.svg, "mousemove").pipe(
+        startWith(down),
+        takeUntil(fromEvent(document, "mouseup"))
+      )
+    ),
+    map(({ clientX, clientY }) => {
+      const { left, top, width, height } = view.svg.getBoundingClientRect();
+      return new Paint(
+        new Pos((clientX - left) / width, (clientY - top) / height)
+      );
+    })
   );
-  const s$ = fromHold(
-    ["KeyS", "ArrowDown"],
-    () => new SoftDrop(new Pos(0, 1)),
-    0
+  const brush$ = fromEvent<MouseEvent>(view.editorPalette, "click").pipe(
+    map(({ target }) => (target as HTMLElement).dataset.piece),
+    filter((piece): piece is string => piece !== undefined),
+    map((piece) => new EditBrush(piece === "" ? null : piece))
   );
-  const d$ = fromHold(
-    ["KeyD", "ArrowRight"],
-    () => new Translate(new Pos(1, 0)),
-    Controls.HOLD_DELAY
+  const editQueue$ = fromEvent(view.editorQueue, "change").pipe(
+    map(
+      () =>
+        new EditQueue(
+          view.editorQueue.value.split(/[\s,]+/).filter((type) => type !== "")
+        )
+    )
   );
-  const z$ = fromKeyNoRepeat("keydown", ["KeyZ"]).pipe(
-    map(() => new Rotate(-1))
+  const editHold$ = fromEvent(view.editorHold, "change").pipe(
+    map(() => new EditHold(view.editorHold.value.trim() || null))
   );
-  const r$ = fromKeyNoRepeat("keypress", ["KeyR"]).pipe(
-    map(() => new Restart())
+  const play$ = fromEvent(view.editorPlay, "click").pipe(
+    map(() => new PlayEdited())
   );
-  const c$ = fromKeyNoRepeat("keypress", ["KeyC"]).pipe(map(() => new Hold()));
-  const space$ = fromKeyNoRepeat("keypress", ["Space"]).pipe(
-    map(() => new HardDrop())
+
+  // held actions are tracked even while paused, moves and soft drop repeat
+  // on each tick while held
+  const held$ = merge(
+    fromHeldAction("MOVE_LEFT"),
+    fromHeldAction("MOVE_RIGHT"),
+    fromHeldAction("SOFT_DROP"),
+    fromHeldAction("ROTATE_CW"),
+    fromHeldAction("ROTATE_CCW"),
+    fromHeldAction("ROTATE_180"),
+    fromHeldAction("HOLD")
   );
 
   const tick$ = interval(Settings.TICK);
 
   // Create a pausable stream to represent the game state
-  const pause$ = fromKeyNoRepeat("keydown", ["KeyP"]).pipe(
+  const pause$ = fromPress("PAUSE").pipe(
     scan((isPaused) => !isPaused, false),
     startWith(false)
   );
@@ -139,7 +388,21 @@ export function main() {
     )
   );
 
-  const controls$ = merge(w$, a$, s$, c$, d$, r$, z$, space$).pipe(
+  const controls$ = merge(
+    rotateCw$,
+    hold$,
+    restart$,
+    rotateCcw$,
+    rotate180$,
+    hardDrop$,
+    edit$,
+    gesture$,
+    paint$,
+    brush$,
+    editQueue$,
+    editHold$,
+    play$
+  ).pipe(
     // get latest value of pause$ on each key press
     withLatestFrom(pause$),
 
@@ -147,13 +410,46 @@ export function main() {
     switchMap(([control, isPaused]) => (isPaused ? EMPTY : of(control)))
   );
 
-  const gameState$ = merge(gameTick$, controls$).pipe(
-    scan(reduceState, initialState) // Accumulate game state changes
+  // the rules of the game are read from the URL, e.g. ?mode=SPRINT, and a
+  // puzzle can be loaded as JSON, e.g. ?puzzle={"board":[...],...}
+  const params = new URLSearchParams(window.location.search);
+  const config = getGameConfig(getUrlConfig(params));
+  const puzzleJson = params.get("puzzle");
+  const puzzle = puzzleJson === null ? null : parsePuzzle(puzzleJson, config);
+  const startState = getFreshState(
+    Math.random() * 1000000,
+    puzzle === null ? config : { ...config, mode: "PUZZLE", puzzle: puzzle }
+  );
+  view.renderSetup(startState.config);
+  if (puzzleJson !== null && puzzle === null) {
+    view.renderError(
+      "The puzzle in the URL is invalid, a new game was started."
+    );
+  }
+
+  const gameState$ = merge(
+    handling$.pipe(map((handling) => new SetHandling(handling))),
+    gameTick$,
+    controls$,
+    held$
+  ).pipe(
+    scan(reduceState, startState) // Accumulate game state changes
   );
 
   const subscription: Subscription = gameState$.subscribe((s) => {
     view.render(s);
   });
+
+  handling$.subscribe((handling) => {
+    saveHandling(localStorage, handling);
+    view.renderHandling(handling);
+  });
+
+  rebound$.subscribe(([keys, buttons, conflict]) => {
+    saveKeyBindings(localStorage, keys);
+    saveButtonBindings(localStorage, buttons);
+    view.renderBindings(keys, buttons, conflict);
+  });
 }
 
 if (typeof window !== "undefined") {
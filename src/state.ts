@@ -1,15 +1,44 @@
 /**
  * State. Represents the Model of the game.
  */
+import { Grid, PlayField, Pos, SequenceRandomizer, Tetromino } from "./classes";
 import {
-  Grid,
-  PlayField,
-  Pos,
-  Tetromino,
-  TetrominoBagFactory,
-} from "./classes";
-import { GridSettings, ScoreTable, ScoringRules, Settings } from "./constants";
-import { Cell, Effect, RotateDirection, State } from "./types";
+  AttackTable,
+  Colors,
+  DefaultGameConfig,
+  DifficultClearActions,
+  PerfectClearScoreTable,
+  RotateActionDirection,
+  RotateDirectionAction,
+  ScoreTable,
+  ScoringRules,
+  Settings,
+  ShiftActionDirection,
+  TSpinCorners,
+  TSpinFrontCorners,
+  TSpinMiniScoreTable,
+  TSpinScoreTable,
+} from "./constants";
+import {
+  BufferedAction,
+  Cell,
+  Effect,
+  GameAction,
+  GameConfig,
+  GameEndReason,
+  GamePhase,
+  GarbageAttack,
+  Handling,
+  LazyArraySequence,
+  Nullable,
+  PosArray,
+  Puzzle,
+  RotateDirection,
+  SpinType,
+  StartPosition,
+  State,
+  TetrominoType,
+} from "./types";
 import {
   ifElse,
   flip,
@@ -18,7 +47,14 @@ import {
   makeGrid,
   not,
   pipe,
-  getOffset,
+  getRotationSystem,
+  getPieceSet,
+  getPieceType,
+  getPieceTypes,
+  getRandomizer,
+  getSpawnPos,
+  peek,
+  RNG,
 } from "./utils";
 
 /**
@@ -27,7 +63,7 @@ import {
 export class Hold implements Effect {
   constructor() {}
   apply = (s: State): State =>
-    !s.hold.used
+    isPieceActive(s) && !s.hold.used && !Lock.isOutOfPieces(s)
       ? pipe(
           s,
           ifElse(
@@ -36,9 +72,12 @@ export class Hold implements Effect {
             Hold.holdActive
           ),
           Lock.resetLock,
+          resetLastRotation,
+          Lock.blockOut,
+          Tick.instantGravity,
           updateGhost
         )
-      : s;
+      : bufferAction("HOLD")(s);
 
   /**
    * Holds the next tetromino.
@@ -51,19 +90,15 @@ export class Hold implements Effect {
         ...s,
         active: {
           ...s.active,
-          tetromino: s.next.tetromino,
-        },
-        next: {
-          tetromino: getTetromino(
-            Settings.TETROMINO_SPAWN_POS,
-            s.next.nextSequence.value
-          ),
-          nextSequence: s.next.nextSequence.next(),
+          tetromino: s.next.queue[0],
         },
+        next: getNext(s.config, s.next.nextSequence.next()),
         hold: {
           tetromino: getTetromino(
-            Settings.TETROMINO_SPAWN_POS,
-            s.active.tetromino.type
+            getSpawnPos(s.config, s.active.tetromino.type),
+            s.active.tetromino.type,
+            s.config.rotationSystem,
+            s.config.pieces
           ),
           used: true,
         },
@@ -88,8 +123,10 @@ export class Hold implements Effect {
             },
             hold: {
               tetromino: getTetromino(
-                Settings.TETROMINO_SPAWN_POS,
-                s.active.tetromino.type
+                getSpawnPos(s.config, s.active.tetromino.type),
+                s.active.tetromino.type,
+                s.config.rotationSystem,
+                s.config.pieces
               ),
               used: true,
             },
@@ -124,8 +161,15 @@ export class Translate implements Effect {
    * @returns Updated state
    */
   apply = (s: State): State =>
-    !s.gameEnd && not(colliding(s))(s.active.tetromino.translate(this.pos))
-      ? pipe(s, translate(this.pos), Lock.updateLock, updateGhost)
+    isPieceActive(s) &&
+    not(colliding(s))(s.active.tetromino.translate(this.pos))
+      ? pipe(
+          s,
+          translate(this.pos),
+          resetLastRotation,
+          Lock.updateLock,
+          updateGhost
+        )
       : s;
 }
 
@@ -142,11 +186,13 @@ export class SoftDrop implements Effect {
    * @returns Updated state
    */
   apply = (s: State): State =>
-    !s.gameEnd && not(colliding(s))(s.active.tetromino.translate(this.pos))
+    isPieceActive(s) &&
+    not(colliding(s))(s.active.tetromino.translate(this.pos))
       ? pipe(
           s,
-          addScore(ScoringRules.SOFT_DROP),
+          addScore(s.config.scoringRules.SOFT_DROP * this.pos.y),
           translate(this.pos),
+          resetLastRotation,
           Lock.updateLock,
           updateGhost
         )
@@ -159,14 +205,20 @@ export class SoftDrop implements Effect {
 export class HardDrop implements Effect {
   constructor() {}
   apply = (s: State): State =>
-    !s.gameEnd
+    isPieceActive(s)
       ? pipe(
           s,
+          // dropping any distance means the last move was not a rotation
+          ifElse(
+            () => s.active.ghost.pos.y > s.active.tetromino.pos.y,
+            resetLastRotation,
+            (s: State) => s
+          ),
           translate(s.active.ghost.pos.minus(s.active.tetromino.pos)), // translate to ghost pos
-          addScore(ScoringRules.HARD_DROP),
+          addScore(s.config.scoringRules.HARD_DROP),
           new Lock().apply
         )
-      : s;
+      : bufferAction("HARD_DROP")(s);
 }
 
 /**
@@ -182,21 +234,146 @@ export class Lock implements Effect {
    * @returns Updated state
    */
   apply = (s: State): State =>
-    !s.gameEnd
+    isPieceActive(s)
       ? pipe(
           s,
           Lock.incrementLockCount,
           Lock.unlockHold,
           Lock.merge,
           Lock.resetLock,
-          Lock.clearFilledRows,
-          Lock.updateLevel,
-          Lock.nextTetromino,
-          updateGhost,
-          Lock.updateLock
+          ifElse(Lock.isLockOut, Lock.endGame("LOCK_OUT"), (s: State) =>
+            pipe(
+              s,
+              Lock.scoreFilledRows,
+              Lock.updateLevel,
+              ifElse(
+                (s: State) =>
+                  Lock.countFilledRows(s) > 0 && s.config.lineClearDelay > 0,
+                Lock.startPhase("LINE_CLEAR"),
+                Lock.finishClear
+              )
+            )
+          )
         )
       : s;
 
+  /**
+   * Starts a phase of the game.
+   * @param phase phase to start
+   * @param s game State
+   * @returns Updated game State
+   */
+  static startPhase =
+    (phase: GamePhase) =>
+    (s: State): State => ({
+      ...s,
+      phase: { type: phase, startTime: s.metrics.currentTime },
+    });
+
+  /**
+   * Finishes a lock after the line clear delay. Exchanges garbage, collapses
+   * filled rows, and spawns the next tetromino after the entry delay.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static finishClear = (s: State): State =>
+    pipe(
+      s,
+      Garbage.exchange,
+      digCheese,
+      Lock.collapseFilledRows,
+      fillCheese,
+      ifElse(
+        (s: State) => s.gameEnd,
+        (s: State) => s,
+        ifElse(
+          // out of pieces, wait for the end of the puzzle
+          (s: State) => s.config.entryDelay > 0 || Lock.isOutOfPieces(s),
+          Lock.startPhase("ENTRY"),
+          Lock.spawn
+        )
+      )
+    );
+
+  /**
+   * Spawns the next tetromino, ending the entry delay.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static spawn = (s: State): State =>
+    pipe(
+      s,
+      Lock.startPhase("FALLING"),
+      Lock.cutAutoShift,
+      Lock.nextTetromino,
+      Tick.instantGravity,
+      updateGhost,
+      Lock.updateLock,
+      Lock.replayBufferedActions
+    );
+
+  /**
+   * Replays the actions buffered during the delays on the spawned tetromino,
+   * in the order they were pressed. Actions that are still held were already
+   * applied by the Initial Rotation and Hold Systems.
+   * @param s game State
+   * @returns Updated game State with no buffered actions
+   */
+  static replayBufferedActions = (s: State): State =>
+    s.bufferedActions
+      .filter((action) => !s.heldActions.some((held) => held === action))
+      .reduce((acc, action) => Lock.replay[action](acc), {
+        ...s,
+        bufferedActions: [],
+      } as State);
+
+  /**
+   * Effects of the buffered actions.
+   */
+  static replay: Readonly<Record<BufferedAction, (s: State) => State>> = {
+    ROTATE_CW: (s) => new Rotate(1).apply(s),
+    ROTATE_CCW: (s) => new Rotate(-1).apply(s),
+    ROTATE_180: (s) => new Rotate(2).apply(s),
+    HOLD: (s) => new Hold().apply(s),
+    HARD_DROP: (s) => new HardDrop().apply(s),
+  };
+
+  /**
+   * Suspends auto shift for the DAS cut of a spawn, and starts the DAS
+   * charge again unless it is preserved across pieces.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static cutAutoShift = (s: State): State => {
+    const { preserveDas, dasCut } = s.config.handling;
+    return {
+      ...s,
+      autoShift: {
+        start: preserveDas ? s.autoShift.start : s.metrics.currentTime,
+        shifted: preserveDas ? s.autoShift.shifted : null,
+        resume: s.metrics.currentTime + dasCut,
+      },
+    };
+  };
+
+  /**
+   * Checks if there is no piece left to spawn, only when a puzzle sequence
+   * runs out and nothing is held.
+   * @param s game State
+   * @returns true if there is no piece left to spawn
+   */
+  static isOutOfPieces = (s: State): boolean =>
+    s.next.queue.length === 0 && s.hold.tetromino === null;
+
+  /**
+   * Counts the fully filled rows of the playField.
+   * @param s game State
+   * @returns number of filled rows
+   */
+  static countFilledRows = (s: State): number =>
+    s.playField.grid.cells.filter((row) => row.every((cell) => cell.filled))
+      .length;
+
   /**
    * Increment lockCount.
    * @param s game State
@@ -242,9 +419,9 @@ export class Lock implements Effect {
     metrics: {
       ...s.metrics,
       level: Math.min(
-        Settings.LEVEL_MAX,
-        initialState.metrics.level +
-          Math.floor(s.metrics.rowsCleared / Settings.LINES_PER_LEVEL)
+        s.config.levelMax,
+        s.config.levelStart +
+          Math.floor(s.metrics.rowsCleared / s.config.linesPerLevel)
       ),
     },
   });
@@ -261,27 +438,56 @@ export class Lock implements Effect {
         ...s.active.lock,
         resettedCount: 0,
         ready: false,
+        lowestRow: Lock.getLowestRow(s.active.tetromino),
       },
     },
+    phase: { type: "FALLING", startTime: s.metrics.currentTime },
   });
 
   /**
    * Ends the game.
+   * @param gameEndReason why the game has ended
    * @param s game State
    * @returns Updated game State with gameEnd = true
    */
-  static endGame = (s: State): State => ({
-    ...s,
-    metrics: {
-      ...s.metrics,
-      endTime: s.metrics.currentTime,
-      hiScore:
-        s.metrics.score > s.metrics.hiScore
-          ? s.metrics.score
-          : s.metrics.hiScore,
-    },
-    gameEnd: true,
-  });
+  static endGame =
+    (gameEndReason: GameEndReason) =>
+    (s: State): State => ({
+      ...s,
+      metrics: {
+        ...s.metrics,
+        endTime: s.metrics.currentTime,
+        hiScore:
+          s.metrics.score > s.metrics.hiScore
+            ? s.metrics.score
+            : s.metrics.hiScore,
+      },
+      gameEnd: true,
+      gameEndReason: gameEndReason,
+    });
+
+  /**
+   * Checks if the active tetromino is entirely above the visible playField.
+   * @param s game State
+   * @returns true if every block of the active tetromino is in the buffer zone
+   */
+  static isLockOut = (s: State): boolean =>
+    s.active.tetromino.grid.cells.every((row, y) =>
+      row.every(
+        (cell) =>
+          !cell.filled ||
+          s.active.tetromino.pos.y + y - s.playField.pos.y <
+            s.config.bufferHeight
+      )
+    );
+
+  /**
+   * Ends the game if the active tetromino has spawned overlapping blocks.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static blockOut = (s: State): State =>
+    colliding(s)(s.active.tetromino) ? this.endGame("BLOCK_OUT")(s) : s;
 
   /**
    * Switches to next tetromino, if it is colliding with the playField, game over.
@@ -289,24 +495,81 @@ export class Lock implements Effect {
    * @returns Updated game State
    */
   static nextTetromino = (s: State): State =>
-    colliding(s)(s.next.tetromino)
-      ? // if colliding with the next tetromino, game over
-        this.endGame(s)
-      : // else, go to next tetromino
-        {
-          ...s,
-          active: {
-            ...s.active,
-            tetromino: s.next.tetromino,
-          },
-          next: {
-            tetromino: getTetromino(
-              Settings.TETROMINO_SPAWN_POS,
-              s.next.nextSequence.value
-            ),
-            nextSequence: s.next.nextSequence.next(),
+    pipe(
+      s.next.queue.length === 0
+        ? // the held tetromino is the last one of a puzzle
+          {
+            ...s,
+            active: {
+              ...s.active,
+              tetromino: s.hold.tetromino!,
+              lastRotation: null,
+            },
+            hold: { tetromino: null, used: false },
+          }
+        : {
+            ...s,
+            active: {
+              ...s.active,
+              tetromino: s.next.queue[0],
+              lastRotation: null,
+            },
+            next: getNext(s.config, s.next.nextSequence.next()),
           },
-        };
+      Lock.initialHold,
+      Lock.initialRotation,
+      // if colliding with the spawned tetromino, game over
+      Lock.blockOut
+    );
+
+  /**
+   * Initial Hold System (IHS), holds the spawned tetromino if hold is held down.
+   * Falls back to the spawned tetromino if the held one would collide.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static initialHold = (s: State): State => {
+    if (!s.heldActions.includes("HOLD") || s.hold.used) {
+      return s;
+    }
+    const held =
+      s.hold.tetromino === null ? Hold.holdNext(s) : Hold.holdActive(s);
+    return colliding(held)(held.active.tetromino) ? s : held;
+  };
+
+  /**
+   * Initial Rotation System (IRS), rotates the spawned tetromino if a rotate
+   * action is held down, using the last pressed one. The rotation only uses
+   * the first offset of its kicks, the correction that keeps I and O in place,
+   * and falls back to the spawn state if the rotated tetromino would collide.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static initialRotation = (s: State): State => {
+    const rotateAction = [...s.heldActions]
+      .reverse()
+      .find((action) => action in RotateActionDirection);
+    if (rotateAction === undefined) {
+      return s;
+    }
+    const rotationSystem = getRotationSystem(
+      s.config.rotationSystem,
+      s.config.pieces
+    );
+    const unkicked = rotationSystem.rotate(
+      s.active.tetromino,
+      RotateActionDirection[rotateAction]!
+    );
+    const [correction] = rotationSystem.getKicks(
+      s.active.tetromino,
+      unkicked,
+      s.playField
+    );
+    const rotated = unkicked.translate(correction);
+    return colliding(s)(rotated)
+      ? s
+      : { ...s, active: { ...s.active, tetromino: rotated } };
+  };
 
   /**
    * Resets combo
@@ -335,76 +598,257 @@ export class Lock implements Effect {
     },
   });
 
+  /**
+   * Gets the spin performed by the active tetromino, using the 3-corner rule.
+   * A T-spin needs the last move to be a rotation and at least 3 of the 4
+   * corners around the T to be occupied. It is a mini unless both corners on
+   * the pointing side are occupied, or the last kick of a 90 degree rotation was used.
+   * Only SRS games award T-spins, as the corners are laid out for SRS states.
+   * @param s game State
+   * @returns spin type, or null if no spin was performed
+   */
+  static getSpin = (s: State): Nullable<SpinType> => {
+    const { tetromino, lastRotation } = s.active;
+    if (
+      tetromino.type !== "T" ||
+      lastRotation === null ||
+      s.config.rotationSystem !== "SRS"
+    ) {
+      return null;
+    }
+    const isOccupied = (corner: PosArray) =>
+      s.playField.isOccupied(tetromino.pos.add(new Pos(...corner)));
+
+    if (TSpinCorners.filter(isOccupied).length < 3) {
+      return null;
+    }
+    return TSpinFrontCorners[tetromino.rotationState].every(isOccupied) ||
+      (lastRotation.rotateDirection !== 2 &&
+        lastRotation.kickIndex === Settings.TSPIN_UPGRADE_KICK_INDEX)
+      ? "T_SPIN"
+      : "T_SPIN_MINI";
+  };
+
+  /**
+   * Gets the clear action for a number of rows cleared with a spin.
+   * @param spin spin performed, if any
+   * @param rowsCleared number of rows cleared
+   * @returns clear action, or null if nothing is scored
+   */
+  static getClearAction = (
+    spin: Nullable<SpinType>,
+    rowsCleared: number
+  ): Nullable<keyof typeof ScoringRules> => {
+    const rows = Lock.getScoredRows(rowsCleared);
+    return (
+      (spin === "T_SPIN_MINI" && TSpinMiniScoreTable[rows]) ||
+      (spin !== null && TSpinScoreTable[rows]) ||
+      ScoreTable[rows] ||
+      null
+    );
+  };
+
+  /**
+   * Gets the number of rows a clear is scored as, capped at a tetris.
+   * @param rowsCleared number of rows cleared
+   * @returns number of rows to look up in the score tables
+   */
+  static getScoredRows = (rowsCleared: number): number =>
+    Math.min(rowsCleared, Settings.SCORED_ROWS_MAX);
+
+  /**
+   * Sets the clear action.
+   * @param clearAction clear action performed
+   * @param s game State
+   * @returns Updated game State with clearAction
+   */
+  static setClearAction =
+    (clearAction: keyof typeof ScoringRules) =>
+    (s: State): State => ({
+      ...s,
+      metrics: {
+        ...s.metrics,
+        clearAction: clearAction,
+      },
+    });
+
   /**
    * Clears fully filled rows from the tetromino & updates score
    * @param s game State
    * @returns new tetromino
    */
-  static clearFilledRows = (s: State): State => {
-    // get not fully filled rows
-    const newCells = s.playField.grid.cells.filter(
-      (row) => !row.every((cell) => cell.filled)
-    );
+  static clearFilledRows = (s: State): State =>
+    pipe(s, Lock.scoreFilledRows, Lock.collapseFilledRows);
 
-    const rowsCleared = s.playField.grid.cells.length - newCells.length;
+  /**
+   * Scores the fully filled rows, without removing them from the playField.
+   * @param s game State
+   * @returns Updated game State with score, combo and clear action updated
+   */
+  static scoreFilledRows = (s: State): State => {
+    const rowsCleared = Lock.countFilledRows(s);
+    const clearAction = Lock.getClearAction(Lock.getSpin(s), rowsCleared);
 
-    if (rowsCleared <= 0) {
+    if (clearAction === null) {
+      // nothing is scored, which breaks the combo
       return Lock.resetCombo(s);
+    } else if (rowsCleared <= 0) {
+      // a spin without clearing rows is still scored, but breaks the combo
+      return pipe(
+        s,
+        Lock.resetCombo,
+        this.setClearAction(clearAction),
+        this.gainScore(clearAction)
+      );
     } else {
-      const newPlayField = new PlayField(
-        s.playField.pos,
-        makeGrid(s.playField.grid.cells.length)(
-          s.playField.grid.cells[0].length
-        )(0)()
-      )
-        // merge the upper cells with the new playfield
-        .merge(
-          new Tetromino(
-            s.playField.pos.add(
-              new Pos(0, s.playField.grid.cells.length - newCells.length)
-            ),
-            new Grid(newCells),
-            "I", // can use anything, it does not matter
-            0
-          )
-        );
       return pipe(
         {
           ...s,
-          playField: newPlayField,
           metrics: {
             ...s.metrics,
-            clearAction: ScoreTable[rowsCleared],
             rowsCleared: s.metrics.rowsCleared + rowsCleared,
           },
         },
+        this.setClearAction(clearAction),
+        this.updateBackToBack(clearAction),
         this.updateCombo,
-        this.gainScore(rowsCleared)
+        this.gainScore(clearAction),
+        this.perfectClear(rowsCleared)
       );
     }
   };
+
+  /**
+   * Removes fully filled rows from the playField, collapsing the rows above.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static collapseFilledRows = (s: State): State => {
+    // get not fully filled rows
+    const newCells = s.playField.grid.cells.filter(
+      (row) => !row.every((cell) => cell.filled)
+    );
+    if (newCells.length === s.playField.grid.cells.length) {
+      return s;
+    }
+    const newPlayField = new PlayField(
+      s.playField.pos,
+      makeGrid(s.playField.grid.cells.length)(s.playField.grid.cells[0].length)(
+        0
+      )()
+    )
+      // merge the upper cells with the new playfield
+      .merge(
+        new Tetromino(
+          s.playField.pos.add(
+            new Pos(0, s.playField.grid.cells.length - newCells.length)
+          ),
+          new Grid(newCells),
+          "I", // can use anything, it does not matter
+          0
+        )
+      );
+    return { ...s, playField: newPlayField };
+  };
+
   /**
-   * Updates score with combo and rows cleared
+   * Awards a perfect clear if clearing the filled rows empties the playField.
    * @param rowsCleared Number of rows cleared
+   * @param s game State
+   * @returns Updated game State with perfect clear scored
+   */
+  static perfectClear =
+    (rowsCleared: number) =>
+    (s: State): State => {
+      // the filled rows may not be collapsed yet
+      if (
+        s.playField.grid.cells.some(
+          (row) => row.some((c) => c.filled) && !row.every((c) => c.filled)
+        )
+      ) {
+        return s;
+      }
+      const rows = Lock.getScoredRows(rowsCleared);
+      const clearAction =
+        rows === 4 && s.metrics.backToBack > 0
+          ? "PERFECT_CLEAR_B2B_TETRIS"
+          : PerfectClearScoreTable[rows];
+      return pipe(
+        {
+          ...s,
+          metrics: {
+            ...s.metrics,
+            perfectClears: s.metrics.perfectClears + 1,
+          },
+        },
+        this.setClearAction(clearAction),
+        addScore(
+          Lock.getScoreSimple(s.config.scoringRules)(clearAction) *
+            s.metrics.level
+        )
+      );
+    };
+  /**
+   * Checks if a clear action is difficult, i.e. continues a back-to-back chain.
+   * @param clearAction clear action to check
+   * @returns true if the clear action is difficult
+   */
+  static isDifficult = (
+    clearAction: Nullable<keyof typeof ScoringRules>
+  ): boolean =>
+    clearAction !== null && DifficultClearActions.includes(clearAction);
+
+  /**
+   * Updates the back-to-back chain with a line clear. Consecutive difficult
+   * clears extend the chain, any other line clear breaks it.
+   * @param clearAction Clear action of the line clear
+   * @param s game State
+   * @returns Updated game State with backToBack and prevClearAction
+   */
+  static updateBackToBack =
+    (clearAction: keyof typeof ScoringRules) =>
+    (s: State): State => ({
+      ...s,
+      metrics: {
+        ...s.metrics,
+        backToBack:
+          Lock.isDifficult(clearAction) &&
+          Lock.isDifficult(s.metrics.prevClearAction)
+            ? s.metrics.backToBack + 1
+            : 0,
+        prevClearAction: clearAction,
+      },
+    });
+
+  /**
+   * Updates score with combo and clear action, difficult clears in a
+   * back-to-back chain are multiplied.
+   * @param clearAction Clear action performed
    * @param s Game state
    * @returns Updated game state
    */
   static gainScore =
-    (rowsCleared: number) =>
+    (clearAction: keyof typeof ScoringRules) =>
     (s: State): State =>
       addScore(
-        (Lock.getScoreSimple(rowsCleared) +
-          ScoringRules.COMBO * s.metrics.combo) *
+        (Lock.getScoreSimple(s.config.scoringRules)(clearAction) *
+          (Lock.isDifficult(clearAction) && s.metrics.backToBack > 0
+            ? s.config.scoringRules.BACK_TO_BACK_MULTIPLIER
+            : 1) +
+          s.config.scoringRules.COMBO * s.metrics.combo) *
           s.metrics.level
       )(s);
 
   /**
-   * Gets the score for clearing rows.
-   * @param rowsCleared number of rows cleared
+   * Gets the score for a clear action.
+   * @param scoringRules scoring rules of the game
+   * @param clearAction clear action performed
    * @returns score
    */
-  static getScoreSimple = (rowsCleared: number): number =>
-    ScoringRules[ScoreTable[rowsCleared]];
+  static getScoreSimple =
+    (scoringRules: GameConfig["scoringRules"]) =>
+    (clearAction: keyof typeof ScoringRules): number =>
+      scoringRules[clearAction];
 
   /**
    * Updates lock state. If tetromino will collide with playField on (new Pos(0,1)), set lock to ready.
@@ -434,30 +878,60 @@ export class Lock implements Effect {
         ...s.active.lock,
         timerStart: s.metrics.currentTime,
         ready: true,
+        lowestRow: Lock.getLowestRow(s.active.tetromino),
       },
     },
+    phase: { type: "LOCKING", startTime: s.metrics.currentTime },
   });
 
   /**
-   * Resets the lock timer, if lock is ready and if can still reset.
+   * Resets the lock timer, if lock is ready and the lock reset policy allows.
+   * Reaching a new lowest row restores the resets of the move reset policy.
    * @param s game State
    * @returns Updated game State
    */
-  static resetLockTimer = (s: State): State =>
-    s.active.lock.ready &&
-    s.active.lock.resettedCount < Settings.LOCK_DELAY_RESET_COUNT
+  static resetLockTimer = (s: State): State => {
+    const lowestRow = Lock.getLowestRow(s.active.tetromino);
+    const isNewLowestRow = lowestRow > s.active.lock.lowestRow;
+    const resettedCount = isNewLowestRow ? 0 : s.active.lock.resettedCount;
+    const canReset = {
+      MOVE: () =>
+        isNewLowestRow || resettedCount < s.config.lockDelayResetCount,
+      STEP: () => isNewLowestRow,
+      INFINITE: () => true,
+      NONE: () => false,
+    }[s.config.lockResetPolicy]();
+    return s.active.lock.ready
       ? {
           ...s,
           active: {
             ...s.active,
             lock: {
               ...s.active.lock,
-              timerStart: s.metrics.currentTime,
-              resettedCount: s.active.lock.resettedCount + 1,
+              lowestRow: Math.max(lowestRow, s.active.lock.lowestRow),
+              ...(canReset
+                ? {
+                    timerStart: s.metrics.currentTime,
+                    resettedCount: resettedCount + (isNewLowestRow ? 0 : 1),
+                  }
+                : {}),
             },
           },
         }
       : s;
+  };
+
+  /**
+   * Gets the lowest row occupied by a tetromino.
+   * @param tetromino tetromino to check
+   * @returns y coordinate of the lowest filled row
+   */
+  static getLowestRow = (tetromino: Tetromino): number =>
+    tetromino.pos.y +
+    tetromino.grid.cells.reduce(
+      (lowest, row, y) => (row.some((cell) => cell.filled) ? y : lowest),
+      0
+    );
 }
 
 /**
@@ -468,7 +942,9 @@ export class Rotate implements Effect {
   constructor(public readonly rotateDirection: RotateDirection) {}
 
   apply = (s: State): State =>
-    !s.gameEnd ? pipe(s, this.rotate, updateGhost, Lock.updateLock) : s;
+    isPieceActive(s)
+      ? pipe(s, this.rotate, updateGhost, Lock.updateLock)
+      : bufferAction(RotateDirectionAction[this.rotateDirection])(s);
 
   /**
    * Rotates the active tetromino if it won't collide with playField.
@@ -476,120 +952,636 @@ export class Rotate implements Effect {
    * @returns Updated State
    */
   rotate = (s: State): State => {
-    const rotatedTetromino = s.active.tetromino.rotate(this.rotateDirection);
-    const rotationOffset = getOffset(s.active.tetromino, rotatedTetromino).find(
-      (offset) => not(colliding(s))(rotatedTetromino.translate(offset))
+    const rotationSystem = getRotationSystem(
+      s.config.rotationSystem,
+      s.config.pieces
+    );
+    const rotatedTetromino = rotationSystem.rotate(
+      s.active.tetromino,
+      this.rotateDirection
+    );
+    const offsets = rotationSystem.getKicks(
+      s.active.tetromino,
+      rotatedTetromino,
+      s.playField
+    );
+    const kickIndex = offsets.findIndex((offset) =>
+      not(colliding(s))(rotatedTetromino.translate(offset))
     );
 
-    return rotationOffset
+    return kickIndex >= 0
       ? pipe(
           {
             ...s,
             active: {
               ...s.active,
               tetromino: rotatedTetromino,
+              lastRotation: {
+                rotateDirection: this.rotateDirection,
+                kickIndex: kickIndex,
+              },
             },
           },
-          translate(rotationOffset)
+          translate(offsets[kickIndex])
         )
       : s;
   };
 }
-export class Pause implements Effect {
-  constructor(public readonly pause: boolean) {}
-  apply = (s: State): State => ({
-    ...s,
-    gamePaused: this.pause,
-  });
-}
 /**
- * Restart class, allows for restarting the game.
+ * Presses or releases a game action that can be held down.
+ * @param action game action
+ * @param held true if pressed, false if released
  */
-export class Restart implements Effect {
-  constructor() {}
+export class HeldInput implements Effect {
+  constructor(
+    public readonly action: GameAction,
+    public readonly held: boolean
+  ) {}
 
-  apply = (s: State): State =>
-    s.gameEnd ? pipe(s, this.restart, updateGhost) : s;
+  apply = (s: State): State => {
+    const updated = {
+      ...s,
+      heldActions: [
+        ...s.heldActions.filter((action) => action !== this.action),
+        ...(this.held ? [this.action] : []),
+      ],
+    };
+    const press = HeldInput.press[this.action];
+    return this.held
+      ? press === undefined
+        ? updated
+        : press(updated)
+      : getShiftDirection(updated) !== getShiftDirection(s)
+      ? HeldInput.resumeShift(updated)
+      : updated;
+  };
+
+  /**
+   * Pressing a move moves once and starts charging its auto shift, pressing
+   * soft drop drops once. Holding them repeats on each Tick. While paused,
+   * the press is only remembered.
+   */
+  static press: Readonly<Partial<Record<GameAction, (s: State) => State>>> = {
+    MOVE_LEFT: (s) => HeldInput.startShift(-1)(s),
+    MOVE_RIGHT: (s) => HeldInput.startShift(1)(s),
+    SOFT_DROP: (s) => HeldInput.startSoftDrop(s),
+  };
 
   /**
-   * Restarts the game.
+   * Moves the active tetromino and starts the DAS charge. The charge starts
+   * even if the tetromino cannot move, e.g. during a delay or against a wall.
+   * @param direction direction of the move
    * @param s game State
    * @returns Updated game State
    */
-  restart = (s: State): State => ({
-    ...initialState,
-    active: {
-      ...initialState.active,
-      tetromino: s.next.tetromino,
-    },
-    next: {
-      tetromino: getTetromino(
-        Settings.TETROMINO_SPAWN_POS,
-        s.next.nextSequence.value
-      ),
-      nextSequence: s.next.nextSequence.next(),
-    },
-    metrics: {
-      ...initialState.metrics,
-      hiScore: s.metrics.hiScore,
-      previousGravitateTime: s.metrics.currentTime, // reset previousGravitateTime, if not it will gravitate unexpectedly
-      startTime: s.metrics.currentTime,
-    },
-    gameEnd: false,
-  });
-}
-
-/**
- * Tick class, manages the game loop.
- * @param elapsed time elapsed since the start of the game
- */
-export class Tick implements Effect {
-  constructor(public readonly elapsed: number) {}
-
-  apply = (s: State): State =>
-    !s.gameEnd
-      ? pipe(s, this.lock, this.updateTime, this.gravitate)
-      : this.updateTime(s);
+  static startShift =
+    (direction: -1 | 1) =>
+    (s: State): State => ({
+      ...(s.gamePaused ? s : new Translate(new Pos(direction, 0)).apply(s)),
+      autoShift: {
+        ...s.autoShift,
+        start: s.metrics.currentTime,
+        shifted: null,
+      },
+    });
 
   /**
-   * Locks the active tetromino if it is ready, and if lock delay timer is met.
+   * Soft drops the active tetromino, then gravity is counted from now so the
+   * faster soft drop gravity does not drop the time already waited.
    * @param s game State
    * @returns Updated game State
    */
-  lock = (s: State): State => {
-    const lockTimeup =
-      s.metrics.currentTime - s.active.lock.timerStart > Settings.LOCK_DELAY;
-    return s.active.lock.ready &&
-      lockTimeup &&
-      colliding(s)(s.active.tetromino.translate(new Pos(0, 1)))
-      ? new Lock().apply(s)
-      : s;
+  static startSoftDrop = (s: State): State => {
+    const dropped = s.gamePaused ? s : new SoftDrop(new Pos(0, 1)).apply(s);
+    return {
+      ...dropped,
+      metrics: {
+        ...dropped.metrics,
+        previousGravitateTime: s.metrics.currentTime,
+      },
+    };
   };
 
   /**
-   * Gravitates the active tetromino if the next gravitate time is met.
+   * Hands auto shift back to the move still held when the last pressed one is
+   * released. It has been held all along, so its DAS is already charged.
    * @param s game State
    * @returns Updated game State
    */
-  gravitate = (s: State): State => {
-    const nextGravitate =
-      (getGravity(s.metrics.level) / Settings.TARGET_FPS) * 1000;
-    return s.metrics.currentTime - s.metrics.previousGravitateTime >
-      nextGravitate
-      ? pipe(
-          {
-            ...s,
-            metrics: {
-              ...s.metrics,
-              previousGravitateTime:
-                s.metrics.previousGravitateTime + nextGravitate,
-            },
+  static resumeShift = (s: State): State =>
+    getShiftDirection(s) === 0
+      ? s
+      : {
+          ...s,
+          autoShift: {
+            ...s.autoShift,
+            start: s.metrics.currentTime - s.config.handling.das,
+            shifted: null,
           },
-          new Translate(Settings.GRAVITY).apply
+        };
+}
+
+/**
+ * SetHandling class, sets how held movement keys repeat.
+ * @param handling handling of the player
+ */
+export class SetHandling implements Effect {
+  constructor(public readonly handling: Handling) {}
+  apply = (s: State): State => ({
+    ...s,
+    config: { ...s.config, handling: this.handling },
+  });
+}
+
+/**
+ * Garbage class, receives garbage rows into the pending garbage queue.
+ * Pending garbage is cancelled by the player's own clears, or else inserted
+ * when a tetromino locks without clearing rows.
+ * @param rows number of garbage rows
+ * @param hole column of the hole in the garbage rows
+ */
+export class Garbage implements Effect {
+  constructor(public readonly rows: number, public readonly hole: number) {}
+
+  apply = (s: State): State =>
+    !s.gameEnd
+      ? {
+          ...s,
+          pendingGarbage: [
+            ...s.pendingGarbage,
+            { rows: this.rows, hole: this.hole },
+          ],
+        }
+      : s;
+
+  /**
+   * Exchanges garbage after a lock, before filled rows collapse. A lock
+   * clearing rows sends an attack, cancelling pending garbage first, any
+   * other lock inserts pending garbage.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static exchange = (s: State): State =>
+    Lock.countFilledRows(s) > 0 ? Garbage.attack(s) : Garbage.insertPending(s);
+
+  /**
+   * Gets the garbage rows sent by the last clear action.
+   * @param s game State
+   * @returns number of garbage rows
+   */
+  static getAttack = (s: State): number =>
+    s.metrics.clearAction === null
+      ? 0
+      : (AttackTable[s.metrics.clearAction] ?? 0) +
+        (Lock.isDifficult(s.metrics.clearAction) && s.metrics.backToBack > 0
+          ? AttackTable.BACK_TO_BACK_BONUS
+          : 0);
+
+  /**
+   * Sends an attack, cancelling pending garbage first.
+   * @param s game State
+   * @returns Updated game State with garbageSent + rows left after cancelling
+   */
+  static attack = (s: State): State => {
+    const [sent, pendingGarbage] = Garbage.cancel(
+      Garbage.getAttack(s),
+      s.pendingGarbage
+    );
+    return {
+      ...s,
+      pendingGarbage: pendingGarbage,
+      metrics: {
+        ...s.metrics,
+        garbageSent: s.metrics.garbageSent + sent,
+      },
+    };
+  };
+
+  /**
+   * Cancels pending garbage with an attack, oldest garbage first.
+   * @param attack rows of the attack
+   * @param pendingGarbage pending garbage queue
+   * @returns rows of the attack left, and the pending garbage left
+   */
+  static cancel = (
+    attack: number,
+    pendingGarbage: ReadonlyArray<GarbageAttack>
+  ): [attack: number, pendingGarbage: ReadonlyArray<GarbageAttack>] =>
+    attack <= 0 || pendingGarbage.length === 0
+      ? [attack, pendingGarbage]
+      : pendingGarbage[0].rows <= attack
+      ? Garbage.cancel(attack - pendingGarbage[0].rows, pendingGarbage.slice(1))
+      : [
+          0,
+          [
+            { ...pendingGarbage[0], rows: pendingGarbage[0].rows - attack },
+            ...pendingGarbage.slice(1),
+          ],
+        ];
+
+  /**
+   * Inserts all pending garbage, oldest garbage first.
+   * @param s game State
+   * @returns Updated game State with an empty pending garbage queue
+   */
+  static insertPending = (s: State): State =>
+    s.pendingGarbage.reduce((acc, garbage) => Garbage.insert(garbage)(acc), {
+      ...s,
+      pendingGarbage: [],
+    } as State);
+
+  /**
+   * Inserts garbage rows into the bottom of the playField. The game tops out
+   * if blocks are pushed above the top of the playField.
+   * @param garbage garbage to insert
+   * @param s game State
+   * @returns Updated game State
+   */
+  static insert =
+    (garbage: GarbageAttack) =>
+    (s: State): State => {
+      if (s.gameEnd) {
+        return s;
+      }
+      const pushedOut = s.playField.grid.cells
+        .slice(0, garbage.rows)
+        .some((row) => row.some((cell) => cell.filled));
+      const inserted = {
+        ...s,
+        playField: s.playField.insertGarbage(garbage.rows, garbage.hole),
+      };
+      return pushedOut ? Lock.endGame("TOP_OUT")(inserted) : inserted;
+    };
+}
+
+/**
+ * Inserts garbage rows into the playField immediately, pushing the active
+ * tetromino up with the stack if they overlap.
+ * @param rows number of garbage rows
+ * @param hole column of the hole in the garbage rows
+ */
+export class InsertGarbage implements Effect {
+  constructor(public readonly rows: number, public readonly hole: number) {}
+
+  apply = (s: State): State =>
+    !s.gameEnd
+      ? pipe(
+          s,
+          Garbage.insert({ rows: this.rows, hole: this.hole }),
+          this.pushActive,
+          updateGhost
+        )
+      : s;
+
+  /**
+   * Pushes the active tetromino up if it overlaps the inserted garbage.
+   * The game tops out if it still overlaps.
+   * @param s game State
+   * @returns Updated game State
+   */
+  pushActive = (s: State): State => {
+    if (!isPieceActive(s) || not(colliding(s))(s.active.tetromino)) {
+      return s;
+    }
+    const pushed = translate(new Pos(0, -this.rows))(s);
+    return colliding(pushed)(pushed.active.tetromino)
+      ? Lock.endGame("TOP_OUT")(pushed)
+      : pushed;
+  };
+}
+
+export class Pause implements Effect {
+  constructor(public readonly pause: boolean) {}
+  apply = (s: State): State => ({
+    ...s,
+    gamePaused: this.pause,
+  });
+}
+/**
+ * Restart class, allows for restarting the game.
+ */
+export class Restart implements Effect {
+  constructor() {}
+
+  apply = (s: State): State =>
+    (s.gameEnd || s.config.mode === "PUZZLE") && !s.editor.editing
+      ? pipe(s, this.restart, updateGhost)
+      : s;
+
+  /**
+   * Restarts the game. A puzzle can be retried at any time, from the start.
+   * @param s game State
+   * @returns Updated game State
+   */
+  restart = (s: State): State => {
+    const freshState = getFreshState(s.next.nextSequence.seed, s.config);
+    return {
+      ...freshState,
+      ...(s.config.mode === "PUZZLE"
+        ? {}
+        : {
+            active: {
+              ...freshState.active,
+              tetromino: s.next.queue[0],
+            },
+            next: getNext(s.config, s.next.nextSequence.next()),
+          }),
+      metrics: {
+        ...freshState.metrics,
+        hiScore: s.metrics.hiScore,
+        previousGravitateTime: s.metrics.currentTime, // reset previousGravitateTime, if not it will gravitate unexpectedly
+        startTime: s.metrics.currentTime,
+      },
+      gameEnd: false,
+      gameEndReason: null,
+      heldActions: s.heldActions,
+    };
+  };
+}
+
+/**
+ * Edit class, opens the board editor on the current board and pieces.
+ * The game is paused until the edited position is played.
+ */
+export class Edit implements Effect {
+  constructor() {}
+  apply = (s: State): State =>
+    s.editor.editing
+      ? s
+      : {
+          ...s,
+          editor: {
+            ...s.editor,
+            editing: true,
+            sequence: [s.active.tetromino, ...s.next.queue].map(
+              (tetromino) => tetromino.type
+            ),
+            hold: s.hold.tetromino === null ? null : s.hold.tetromino.type,
+          },
+        };
+}
+
+/**
+ * Paint class, paints a cell of the board editor with the brush.
+ * @param pos position relative to the visible playField, from 0 to 1 on each axis
+ */
+export class Paint implements Effect {
+  constructor(public readonly pos: Pos) {}
+  apply = (s: State): State =>
+    s.editor.editing
+      ? {
+          ...s,
+          playField: s.playField.paint(
+            new Pos(
+              Math.floor(this.pos.x * s.config.boardWidth),
+              Math.floor(this.pos.y * s.config.boardHeight) +
+                s.config.bufferHeight
+            ),
+            getPaintedCell(s, s.editor.brush)
+          ),
+        }
+      : s;
+}
+
+/**
+ * EditBrush class, selects the brush of the board editor.
+ * @param brush piece type, any other character for garbage, or null to erase
+ */
+export class EditBrush implements Effect {
+  constructor(public readonly brush: Nullable<string>) {}
+  apply = (s: State): State =>
+    s.editor.editing ? { ...s, editor: { ...s.editor, brush: this.brush } } : s;
+}
+
+/**
+ * EditQueue class, sets the pieces dealt first from the board editor.
+ * Pieces that are not in the piece set are ignored.
+ * @param sequence piece types, in order
+ */
+export class EditQueue implements Effect {
+  constructor(public readonly sequence: ReadonlyArray<string>) {}
+  apply = (s: State): State =>
+    s.editor.editing
+      ? {
+          ...s,
+          editor: {
+            ...s.editor,
+            sequence: this.sequence
+              .map((key) => getPieceType(s.config.pieces, key))
+              .filter((type): type is TetrominoType => type !== null),
+          },
+        }
+      : s;
+}
+
+/**
+ * EditHold class, sets the piece in hold from the board editor.
+ * @param hold piece type, ignored if it is not in the piece set
+ */
+export class EditHold implements Effect {
+  constructor(public readonly hold: Nullable<string>) {}
+  apply = (s: State): State => {
+    const hold =
+      this.hold === null ? null : getPieceType(s.config.pieces, this.hold);
+    return s.editor.editing && (this.hold === null || hold !== null)
+      ? { ...s, editor: { ...s.editor, hold: hold } }
+      : s;
+  };
+}
+
+/**
+ * PlayEdited class, closes the board editor and starts a new game from the
+ * edited position. A puzzle needs pieces to play.
+ */
+export class PlayEdited implements Effect {
+  constructor() {}
+  apply = (s: State): State =>
+    s.editor.editing &&
+    (s.config.mode !== "PUZZLE" || s.editor.sequence.length > 0)
+      ? pipe(s, this.play, updateGhost)
+      : s;
+
+  /**
+   * Starts a new game from the edited position, a puzzle is played as exported.
+   * @param s game State
+   * @returns Updated game State
+   */
+  play = (s: State): State => {
+    const seed = s.next.nextSequence.seed;
+    const freshState =
+      s.config.mode === "PUZZLE"
+        ? getFreshState(seed, { ...s.config, puzzle: exportPuzzle(s) })
+        : getFreshState(seed, s.config, {
+            playField: s.playField,
+            sequence: s.editor.sequence,
+            hold: s.editor.hold,
+          });
+    return {
+      ...freshState,
+      metrics: {
+        ...freshState.metrics,
+        hiScore: s.metrics.hiScore,
+        previousGravitateTime: s.metrics.currentTime,
+        startTime: s.metrics.currentTime,
+      },
+      heldActions: s.heldActions,
+    };
+  };
+}
+
+/**
+ * Tick class, manages the game loop.
+ * @param elapsed time elapsed since the start of the game
+ */
+export class Tick implements Effect {
+  constructor(public readonly elapsed: number) {}
+
+  apply = (s: State): State =>
+    !s.gameEnd && !s.editor.editing
+      ? pipe(
+          s,
+          this.lock,
+          this.updateTime,
+          this.endDelay,
+          this.autoShift,
+          this.gravitate
+        )
+      : this.updateTime(s);
+
+  /**
+   * Repeats the held move every ARR once DAS is charged, or moves to the wall
+   * with an ARR of 0. Moves do not repeat during the DAS cut of a spawn.
+   * @param s game State
+   * @returns Updated game State
+   */
+  autoShift = (s: State): State => {
+    const direction = getShiftDirection(s);
+    const { das, arr } = s.config.handling;
+    const { start, shifted, resume } = s.autoShift;
+    const now = s.metrics.currentTime;
+    if (
+      !isPieceActive(s) ||
+      direction === 0 ||
+      now - start < das ||
+      now < resume
+    ) {
+      return s;
+    }
+    // repeats are counted from the last one, the end of the charge or the cut,
+    // so moves missed during a delay are not caught up on
+    const last = Math.max(shifted ?? start + das - arr, resume - arr);
+    const moves =
+      arr === 0 ? s.playField.width : Math.floor((now - last) / arr);
+    return moves > 0
+      ? {
+          ...Array.from({ length: moves }).reduce(
+            (acc: State) => new Translate(new Pos(direction, 0)).apply(acc),
+            s
+          ),
+          autoShift: {
+            ...s.autoShift,
+            shifted: arr === 0 ? now : last + moves * arr,
+          },
+        }
+      : s;
+  };
+
+  /**
+   * Ends the line clear or entry delay once its duration has passed.
+   * @param s game State
+   * @returns Updated game State
+   */
+  endDelay = (s: State): State => {
+    const elapsed = s.metrics.currentTime - s.phase.startTime;
+    return s.phase.type === "LINE_CLEAR" && elapsed >= s.config.lineClearDelay
+      ? Lock.finishClear(s)
+      : s.phase.type === "ENTRY" &&
+        elapsed >= s.config.entryDelay &&
+        !Lock.isOutOfPieces(s)
+      ? Lock.spawn(s)
+      : s;
+  };
+
+  /**
+   * Locks the active tetromino if it is ready, and if lock delay timer is met.
+   * @param s game State
+   * @returns Updated game State
+   */
+  lock = (s: State): State => {
+    // without lock delay, the tetromino locks on the tick after it lands
+    const lockTimeup =
+      s.config.lockResetPolicy === "NONE" ||
+      s.metrics.currentTime - s.active.lock.timerStart > s.config.lockDelay;
+    return isPieceActive(s) &&
+      s.active.lock.ready &&
+      lockTimeup &&
+      colliding(s)(s.active.tetromino.translate(new Pos(0, 1)))
+      ? new Lock().apply(s)
+      : s;
+  };
+
+  /**
+   * Gravitates the active tetromino by the rows due since the last gravitate,
+   * dropping as many rows per tick as the gravity allows.
+   * At 20G the active tetromino drops to the floor instantly.
+   * @param s game State
+   * @returns Updated game State
+   */
+  gravitate = (s: State): State => {
+    if (!isPieceActive(s)) {
+      // gravity does not build up during delays
+      return {
+        ...s,
+        metrics: { ...s.metrics, previousGravitateTime: s.metrics.currentTime },
+      };
+    }
+    const softDropping = s.heldActions.includes("SOFT_DROP");
+    // soft drop multiplies gravity by the SDF, or drops instantly if it is Infinity
+    const gravity =
+      getGravity(s.config.gravityTable)(s.metrics.level) *
+      (softDropping ? s.config.handling.sdf : 1);
+    const isInstant = gravity >= Settings.MAX_GRAVITY;
+    // time in ms to drop a row
+    const rowTime = 1000 / (Settings.TARGET_FPS * gravity);
+    const rows = isInstant
+      ? s.playField.height
+      : Math.floor(
+          (s.metrics.currentTime - s.metrics.previousGravitateTime) / rowTime
+        );
+    const drop = Math.min(rows, getGhost(s).pos.y - s.active.tetromino.pos.y);
+    return rows > 0
+      ? pipe(
+          {
+            ...s,
+            metrics: {
+              ...s.metrics,
+              previousGravitateTime: isInstant
+                ? s.metrics.currentTime
+                : s.metrics.previousGravitateTime + rows * rowTime,
+            },
+          },
+          ifElse(
+            () => drop > 0,
+            softDropping
+              ? new SoftDrop(new Pos(0, drop)).apply
+              : new Translate(new Pos(0, drop)).apply,
+            (s: State) => s
+          )
         )
       : s;
   };
 
+  /**
+   * Drops the active tetromino to the floor at 20G, so spawned tetrominoes
+   * appear on the floor immediately.
+   * @param s game State
+   * @returns Updated game State
+   */
+  static instantGravity = (s: State): State =>
+    getGravity(s.config.gravityTable)(s.metrics.level) >= Settings.MAX_GRAVITY
+      ? translate(getGhost(s).pos.minus(s.active.tetromino.pos))(s)
+      : s;
+
   /**
    * Updates the current time.
    * @param s game State
@@ -675,6 +1667,19 @@ export const updateGhost = (s: State): State => ({
   },
 });
 
+/**
+ * Resets the last rotation, as the active tetromino has moved without rotating.
+ * @param s game State
+ * @returns Updated game State with lastRotation = null
+ */
+export const resetLastRotation = (s: State): State => ({
+  ...s,
+  active: {
+    ...s.active,
+    lastRotation: null,
+  },
+});
+
 /**
  * Translates the active tetromino if won't collide with playField.
  * @param s Current State
@@ -698,66 +1703,422 @@ export const translate =
     }
   };
 
+/**
+ * Gets the next queue of a sequence, without consuming the sequence.
+ * A puzzle queue only has the pieces left in its sequence.
+ * @param config game config, with the length of the queue
+ * @param nextSequence sequence, starting at the first tetromino of the queue
+ * @returns next queue
+ */
+export const getNext = (
+  config: GameConfig,
+  nextSequence: LazyArraySequence<TetrominoType>
+): State["next"] => ({
+  queue: peek(
+    nextSequence,
+    Math.min(
+      Math.max(config.nextQueueLength, Settings.NEXT_QUEUE_MIN),
+      Settings.NEXT_QUEUE_MAX,
+      config.mode === "PUZZLE"
+        ? config.puzzle.sequence.length - nextSequence.pointer
+        : Infinity
+    )
+  ).map((type) =>
+    getTetromino(
+      getSpawnPos(config, type),
+      type,
+      config.rotationSystem,
+      config.pieces
+    )
+  ),
+  nextSequence: nextSequence,
+});
+
+/**
+ * Gets the rules of a game, the rules that are not given keep their defaults
+ * and the board dimensions are clamped.
+ * @param gameConfig rules of the game
+ * @returns complete rules of the game
+ */
+export const getGameConfig = (
+  gameConfig: Partial<GameConfig> = {}
+): GameConfig => {
+  const mergedConfig: GameConfig = { ...DefaultGameConfig, ...gameConfig };
+  return {
+    ...mergedConfig,
+    boardWidth: Math.min(
+      Math.max(mergedConfig.boardWidth, Settings.BOARD_WIDTH_MIN),
+      Settings.BOARD_WIDTH_MAX
+    ),
+    boardHeight: Math.min(
+      Math.max(mergedConfig.boardHeight, Settings.BOARD_HEIGHT_MIN),
+      Settings.BOARD_HEIGHT_MAX
+    ),
+  };
+};
+
 /**
  * Creates a fresh state.
  * @param seed
+ * @param gameConfig rules of the game, defaults to DefaultGameConfig
+ * @param start starting position, e.g. from the board editor, defaults to an empty playField
  * @returns
  */
-export const getFreshState = (seed: number): State => {
+export const getFreshState = (
+  seed: number,
+  gameConfig: Partial<GameConfig> = {},
+  start: Nullable<StartPosition> = null
+): State => {
+  const config = getGameConfig(gameConfig);
   /**
    * Initial state of the game.
    */
-  const tetrominoFactory = new TetrominoBagFactory(seed);
+  const randomizer =
+    config.mode === "PUZZLE"
+      ? new SequenceRandomizer(seed, config.puzzle.sequence)
+      : getRandomizer(config.randomizer, seed, getPieceTypes(config.pieces));
+  // the pieces of the starting position are dealt before the randomizer
+  const tetrominoFactory =
+    start === null
+      ? randomizer
+      : new SequenceRandomizer(seed, start.sequence, randomizer);
   const firstSequence = tetrominoFactory.next();
   const nextSequence = firstSequence.next();
 
-  return updateGhost({
-    active: {
-      tetromino: getTetromino(
-        Settings.TETROMINO_SPAWN_POS,
-        firstSequence.value
-      ),
-      ghost: getTetromino(Settings.TETROMINO_SPAWN_POS, firstSequence.value),
-      lock: {
-        ready: false,
-        resettedCount: 0,
-        timerStart: 0,
+  return pipe(
+    {
+      active: {
+        tetromino: getTetromino(
+          getSpawnPos(config, firstSequence.value),
+          firstSequence.value,
+          config.rotationSystem,
+          config.pieces
+        ),
+        ghost: getTetromino(
+          getSpawnPos(config, firstSequence.value),
+          firstSequence.value,
+          config.rotationSystem,
+          config.pieces
+        ),
+        lastRotation: null,
+        lock: {
+          ready: false,
+          resettedCount: 0,
+          timerStart: 0,
+          lowestRow: 0,
+        },
       },
-    },
-    next: {
-      tetromino: getTetromino(Settings.TETROMINO_SPAWN_POS, nextSequence.value),
-      nextSequence: nextSequence.next(),
-    },
-    metrics: {
-      lockCount: 0,
-      rowsCleared: 0,
-      clearAction: null,
-      prevClearAction: null,
-      maxCombo: 0,
-      score: 0,
-      hiScore: 0,
-      level: Settings.LEVEL_START,
-      combo: 0,
-      previousGravitateTime: 0,
-      startTime: 0,
-      currentTime: 0,
-      endTime: 0,
-      holdCount: 0,
-    },
+      next: getNext(config, nextSequence),
+      metrics: {
+        lockCount: 0,
+        rowsCleared: 0,
+        clearAction: null,
+        prevClearAction: null,
+        backToBack: 0,
+        perfectClears: 0,
+        maxCombo: 0,
+        score: 0,
+        hiScore: 0,
+        level: config.levelStart,
+        combo: 0,
+        previousGravitateTime: 0,
+        startTime: 0,
+        currentTime: 0,
+        endTime: 0,
+        holdCount: 0,
+        garbageSent: 0,
+      },
+      hold: {
+        tetromino:
+          start === null || start.hold === null
+            ? null
+            : getTetromino(
+                getSpawnPos(config, start.hold),
+                start.hold,
+                config.rotationSystem,
+                config.pieces
+              ),
+        used: false,
+      },
+      config: config,
+      gameEnd: false,
+      gameEndReason: null,
+      gamePaused: false,
+      gameWillRestart: false,
+      cheese: {
+        seed: seed,
+        rows: 0,
+        remaining: config.mode === "CHEESE" ? config.cheeseRows : 0,
+        hole: null,
+      },
+      phase: { type: "FALLING", startTime: 0 },
+      pendingGarbage: [],
+      heldActions: [],
+      bufferedActions: [],
+      autoShift: { start: 0, shifted: null, resume: 0 },
+      editor: { editing: false, brush: "#", sequence: [], hold: null },
+      playField:
+        start === null
+          ? new PlayField(
+              new Pos(0, 0),
+              makeGrid(config.boardHeight + config.bufferHeight)(
+                config.boardWidth
+              )(0)()
+            )
+          : start.playField,
+    } as const,
+    fillCheese,
+    loadPuzzle,
+    updateGhost
+  );
+};
+
+/**
+ * Generates cheese rows until the visible cheese rows are filled, or none remain.
+ * Each row has a new random hole with a chance of the messiness, or else
+ * keeps the hole of the row below.
+ * @param s game State
+ * @returns Updated game State
+ */
+export const fillCheese = (s: State): State => {
+  if (
+    s.gameEnd ||
+    s.cheese.remaining <= 0 ||
+    s.cheese.rows >= s.config.cheeseVisibleRows
+  ) {
+    return s;
+  }
+  const { seed, hole } = s.cheese;
+  const width = s.playField.width;
+  const newHole =
+    hole === null
+      ? RNG.intRange(seed, 0, width)
+      : RNG.scale(RNG.hash(seed)) < s.config.cheeseMessiness
+      ? // shift by 1 to width - 1 columns, so the hole always moves
+        (hole + RNG.intRange(seed + 1, 1, width)) % width
+      : hole;
+  return fillCheese(
+    Garbage.insert({ rows: 1, hole: newHole })({
+      ...s,
+      cheese: {
+        seed: RNG.hash(seed),
+        rows: s.cheese.rows + 1,
+        remaining: s.cheese.remaining - 1,
+        hole: newHole,
+      },
+    })
+  );
+};
+
+/**
+ * Loads the starting board and hold piece of a puzzle.
+ * @param s game State
+ * @returns Updated game State
+ */
+export const loadPuzzle = (s: State): State => {
+  if (s.config.mode !== "PUZZLE") {
+    return s;
+  }
+  const { board, hold } = s.config.puzzle;
+  const cells = board.map((row) =>
+    Array.from({ length: s.playField.width }, (_, x): Cell => {
+      const char = row.charAt(x);
+      return getPaintedCell(s, char === "" || char === "." ? null : char);
+    })
+  );
+  return {
+    ...s,
+    playField: s.playField.merge(
+      new Tetromino(
+        new Pos(0, s.playField.height - cells.length),
+        new Grid(cells),
+        "I", // can use anything, it does not matter
+        0
+      )
+    ),
     hold: {
-      tetromino: null,
+      tetromino:
+        hold === null
+          ? null
+          : getTetromino(
+              getSpawnPos(s.config, hold),
+              hold,
+              s.config.rotationSystem,
+              s.config.pieces
+            ),
       used: false,
     },
-    gameEnd: false,
-    gamePaused: false,
-    gameWillRestart: false,
-    playField: new PlayField(
-      new Pos(0, 0),
-      makeGrid(GridSettings.CANVAS_HEIGHT)(GridSettings.CANVAS_WIDTH)(0)()
-    ),
-  } as const);
+  };
+};
+
+/**
+ * Gets the cell of a block, in the color of its piece type, or a garbage
+ * block if it is not a piece of the piece set.
+ * @param s game State
+ * @param block piece type of the block, null for an empty cell
+ * @returns cell of the block
+ */
+export const getPaintedCell = (s: State, block: Nullable<string>): Cell => {
+  const type = block === null ? null : getPieceType(s.config.pieces, block);
+  return block === null
+    ? { filled: 0, color: null }
+    : {
+        filled: 1,
+        color:
+          type === null
+            ? Colors.GRAY
+            : getPieceSet(s.config.pieces)[type].color,
+      };
+};
+
+/**
+ * Exports the board and pieces of the board editor as a puzzle, keeping the
+ * goal of the current puzzle. Blocks are named by the piece of their color.
+ * @param s game State
+ * @returns puzzle of the edited position
+ */
+export const exportPuzzle = (s: State): Puzzle => {
+  const pieces = getPieceSet(s.config.pieces);
+  const rows = s.playField.grid.cells.slice(s.config.bufferHeight);
+  const top = rows.findIndex((row) => row.some((cell) => cell.filled));
+  return {
+    board: rows
+      .slice(top === -1 ? rows.length : top)
+      .map((row) =>
+        row
+          .map((cell) =>
+            cell.filled
+              ? getPieceTypes(pieces).find(
+                  (type) => pieces[type].color === cell.color
+                ) ?? "#"
+              : "."
+          )
+          .join("")
+      ),
+    sequence: s.editor.sequence,
+    hold: s.editor.hold,
+    goal: s.config.puzzle.goal,
+  };
+};
+
+/**
+ * Counts the cheese rows cleared by a lock, before filled rows collapse.
+ * Cleared cheese rows are regenerated by fillCheese.
+ * @param s game State
+ * @returns Updated game State
+ */
+export const digCheese = (s: State): State => {
+  const cheeseCleared = s.playField.grid.cells
+    .slice(s.playField.height - s.cheese.rows)
+    .filter((row) => row.every((cell) => cell.filled)).length;
+  return {
+    ...s,
+    cheese: { ...s.cheese, rows: s.cheese.rows - cheeseCleared },
+  };
 };
 
+/**
+ * Checks if the active tetromino can be controlled, i.e. the game is not
+ * over, the board is not being edited and it is not in a line clear or entry delay.
+ * @param s game State
+ * @returns true if the active tetromino can be controlled
+ */
+export const isPieceActive = (s: State): boolean =>
+  !s.gameEnd &&
+  !s.editor.editing &&
+  (s.phase.type === "FALLING" || s.phase.type === "LOCKING");
+
+/**
+ * Checks if the game is in a line clear or entry delay.
+ * @param s game State
+ * @returns true if the game is in a delay
+ */
+export const isDelayed = (s: State): boolean =>
+  !s.gameEnd &&
+  !s.editor.editing &&
+  (s.phase.type === "LINE_CLEAR" || s.phase.type === "ENTRY");
+
+/**
+ * Buffers an action pressed during a line clear or entry delay, so it is
+ * replayed when the next tetromino spawns. Ignored at any other time.
+ * @param action action pressed
+ * @param s game State
+ * @returns Updated game State
+ */
+export const bufferAction =
+  (action: BufferedAction) =>
+  (s: State): State =>
+    isDelayed(s)
+      ? { ...s, bufferedActions: [...s.bufferedActions, action] }
+      : s;
+
+/**
+ * Gets the direction of the held move, the last one pressed wins if both are held.
+ * @param s game State
+ * @returns -1 for left, 1 for right, or 0 if no move is held
+ */
+export const getShiftDirection = (s: State): -1 | 0 | 1 => {
+  const move = [...s.heldActions]
+    .reverse()
+    .find((action) => action in ShiftActionDirection);
+  return move === undefined ? 0 : ShiftActionDirection[move]!;
+};
+
+/**
+ * Checks if the goal of the game mode is reached.
+ * @param s game State
+ * @returns true if the game mode is completed
+ */
+export const isGoalReached = (s: State): boolean =>
+  ({
+    MARATHON: () => s.metrics.rowsCleared >= s.config.marathonLineTarget,
+    SPRINT: () => s.metrics.rowsCleared >= Settings.SPRINT_LINES,
+    ULTRA: () =>
+      s.metrics.currentTime - s.metrics.startTime >= Settings.ULTRA_TIME,
+    CHEESE: () => s.cheese.rows <= 0 && s.cheese.remaining <= 0,
+    PUZZLE: () => isPuzzleSolved(s),
+  }[s.config.mode]());
+
+/**
+ * Checks if the goal of the puzzle is reached.
+ * @param s game State
+ * @returns true if the puzzle is solved
+ */
+export const isPuzzleSolved = (s: State): boolean => {
+  const { type, count } = s.config.puzzle.goal;
+  return {
+    CLEAR_LINES: () => s.metrics.rowsCleared >= count,
+    PERFECT_CLEAR: () => s.metrics.perfectClears >= count,
+    // the previous clear action is kept when a perfect clear replaces it
+    T_SPIN_DOUBLE: () => s.metrics.prevClearAction === "T_SPIN_DOUBLE",
+    SURVIVE: () => s.metrics.lockCount >= count,
+  }[type]();
+};
+
+/**
+ * Checks if the game mode has failed, i.e. a puzzle is out of pieces.
+ * @param s game State
+ * @returns true if the game mode has failed
+ */
+export const isGoalFailed = (s: State): boolean =>
+  s.config.mode === "PUZZLE" &&
+  s.phase.type === "ENTRY" &&
+  Lock.isOutOfPieces(s);
+
+/**
+ * Ends the game once the goal of the game mode is reached or has failed.
+ * @param s game State
+ * @returns Updated game State
+ */
+export const completeGoal = (s: State): State =>
+  s.gameEnd
+    ? s
+    : isGoalReached(s)
+    ? Lock.endGame("COMPLETED")(s)
+    : isGoalFailed(s)
+    ? Lock.endGame("FAILED")(s)
+    : s;
+
 /**
  * Initial state of the game.
  */
@@ -769,6 +2130,6 @@ const initialState: State = getFreshState(Math.random() * 1000000);
  * @param effect type of Effect to apply to the State
  * @returns a new State
  */
-const reduceState = (s: State, e: Effect) => e.apply(s);
+const reduceState = (s: State, e: Effect) => pipe(e.apply(s), completeGoal);
 
 export { initialState, reduceState };
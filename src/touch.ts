@@ -0,0 +1,179 @@
+/**
+ * Touch module. Turns the on-screen buttons and the gestures on the board
+ * into inputs, so the game can be played on phones and tablets.
+ */
+import { Observable, fromEvent, merge } from "rxjs";
+import {
+  filter,
+  map,
+  mergeMap,
+  pairwise,
+  scan,
+  startWith,
+  switchMap,
+  takeWhile,
+} from "rxjs/operators";
+import { Controls } from "./constants";
+import {
+  ActionInput,
+  ControlAction,
+  Gesture,
+  Nullable,
+  TouchGesture,
+  TouchPoint,
+} from "./types";
+
+/**
+ * Gets the cells the first finger has been dragged sideways, towards the
+ * right if positive.
+ * @param gesture touch gesture
+ * @param cellWidth width of a cell of the board in px
+ * @returns cells dragged
+ */
+export const getDragCells = (gesture: TouchGesture, cellWidth: number) =>
+  gesture.fingers > 1
+    ? 0
+    : Math.trunc((gesture.last.x - gesture.start.x) / cellWidth);
+
+/**
+ * Gets the gesture made when every finger is lifted, if any.
+ * A quick touch without moving is a tap, a quick swipe down is a flick.
+ * @param gesture ended touch gesture
+ * @param cellWidth width of a cell of the board in px
+ * @returns gesture, or null if it was a drag or too slow
+ */
+export const getEndGesture = (
+  gesture: TouchGesture,
+  cellWidth: number
+): Nullable<Gesture> => {
+  const dx = gesture.last.x - gesture.start.x;
+  const dy = gesture.last.y - gesture.start.y;
+  const time = gesture.last.time - gesture.start.time;
+  return Math.hypot(dx, dy) <= Controls.TAP_DISTANCE &&
+    time <= Controls.TAP_TIME
+    ? gesture.fingers > 1
+      ? "TWO_FINGER_TAP"
+      : "TAP"
+    : dy >= Controls.FLICK_CELLS * cellWidth &&
+      dy > Math.abs(dx) &&
+      time <= Controls.FLICK_TIME
+    ? "FLICK"
+    : null;
+};
+
+/**
+ * Gets the gestures made between two updates of a touch gesture, a drag for
+ * each cell dragged and the gesture made when every finger is lifted.
+ * @param previous touch gesture before the update
+ * @param current touch gesture after the update
+ * @param cellWidth width of a cell of the board in px
+ * @returns gestures made
+ */
+export const getGestures = (
+  previous: TouchGesture,
+  current: TouchGesture,
+  cellWidth: number
+): ReadonlyArray<Gesture> => {
+  const cells =
+    getDragCells(current, cellWidth) - getDragCells(previous, cellWidth);
+  const end = current.ended ? getEndGesture(current, cellWidth) : null;
+  return [
+    ...Array.from(
+      { length: Math.abs(cells) },
+      (): Gesture => (cells < 0 ? "DRAG_LEFT" : "DRAG_RIGHT")
+    ),
+    ...(end === null ? [] : [end]),
+  ];
+};
+
+/**
+ * Gets where a finger is, if it changed in a touch event.
+ * @param event touch event
+ * @param identifier identifier of the finger
+ * @returns touch point, or null if the finger did not change
+ */
+const getTouchPoint = (
+  event: TouchEvent,
+  identifier: number
+): Nullable<TouchPoint> => {
+  const touch = Array.from(event.changedTouches).find(
+    (touch) => touch.identifier === identifier
+  );
+  return touch === undefined
+    ? null
+    : { x: touch.clientX, y: touch.clientY, time: event.timeStamp };
+};
+
+/**
+ * Touch gestures, emits the gestures made on an element. A gesture starts
+ * with the first finger down on the element and follows it until every
+ * finger is lifted.
+ * @param element element touched, e.g. the board
+ * @param getCellWidth gets the width of a cell of the board in px
+ * @returns Observable of Gesture
+ */
+export const fromGestures = (
+  element: HTMLElement,
+  getCellWidth: () => number
+): Observable<Gesture> =>
+  fromEvent<TouchEvent>(element, "touchstart").pipe(
+    filter(({ touches }) => touches.length === 1),
+    switchMap((down) => {
+      const { identifier } = down.changedTouches[0];
+      const start = getTouchPoint(down, identifier) as TouchPoint;
+      const cellWidth = getCellWidth();
+      const gesture: TouchGesture = {
+        start: start,
+        last: start,
+        fingers: 1,
+        ended: false,
+      };
+      return merge(
+        ...["touchstart", "touchmove", "touchend", "touchcancel"].map((type) =>
+          fromEvent<TouchEvent>(document, type)
+        )
+      ).pipe(
+        takeWhile(({ touches }) => touches.length > 0, true),
+        scan(
+          (gesture, event): TouchGesture => ({
+            ...gesture,
+            last: getTouchPoint(event, identifier) ?? gesture.last,
+            fingers: Math.max(gesture.fingers, event.touches.length),
+            ended: event.touches.length === 0,
+          }),
+          gesture
+        ),
+        startWith(gesture),
+        pairwise(),
+        mergeMap(([previous, current]) =>
+          getGestures(previous, current, cellWidth)
+        )
+      );
+    })
+  );
+
+/**
+ * Touch buttons, emits when an on-screen button is pressed or released.
+ * Each button names the action it presses in its data-action attribute.
+ * @param element element containing the buttons
+ * @returns Observable of ActionInput
+ */
+export const fromTouchButtons = (
+  element: HTMLElement
+): Observable<ActionInput> =>
+  merge(
+    fromEvent<PointerEvent>(element, "pointerdown").pipe(
+      map((event) => [event, true] as const)
+    ),
+    ...["pointerup", "pointercancel", "pointerout"].map((type) =>
+      fromEvent<PointerEvent>(element, type).pipe(
+        map((event) => [event, false] as const)
+      )
+    )
+  ).pipe(
+    map(([{ target }, pressed]) => ({
+      action: (target as HTMLElement).dataset.action as ControlAction,
+      pressed: pressed,
+    })),
+    filter(({ action }) => action !== undefined)
+  );
@@ -1,7 +1,7 @@
 /**
  * Types and interfaces used throughout the game.
  */
-import { PlayField, Tetromino } from "./classes";
+import { Grid, PlayField, Pos, Tetromino } from "./classes";
 import { RotationOffset, ScoreTable } from "./constants";
 
 /**
@@ -22,29 +22,221 @@ export type LazyArraySequence<T> = Readonly<{
   next: () => LazyArraySequence<T>;
 }>;
 
+/**
+ * Randomizer, generates a lazy array sequence of tetrominoes from a seed.
+ * The same seed must always generate the same sequence.
+ */
+export interface Randomizer {
+  readonly seed: number;
+  next: () => LazyArraySequence<TetrominoType>;
+}
+
+/**
+ * Available randomizers.
+ * BAG_7 = each bag has all 7 tetrominoes (every piece of the piece set)
+ * BAG_14 = each bag has all 7 tetrominoes twice
+ * MEMORYLESS = every tetromino is equally likely
+ * NES = rerolls once if the same tetromino is repeated
+ * TGM = rerolls up to 6 times to avoid the last 4 tetrominoes
+ */
+export type RandomizerType = "BAG_7" | "BAG_14" | "MEMORYLESS" | "NES" | "TGM";
+
+/**
+ * Rotation system, bundles the spawn shapes, rotation states and kicks of tetrominoes.
+ */
+export interface RotationSystem {
+  /**
+   * Gets the grid of a tetromino type in a rotation state.
+   */
+  getGrid: (type: TetrominoType, rotationState: RotationState) => Grid;
+  /**
+   * Rotates a tetromino in place, without kicking.
+   */
+  rotate: (tetromino: Tetromino, rotateDirection: RotateDirection) => Tetromino;
+  /**
+   * Gets the offsets to try in order after a rotation, the first one that fits is used.
+   */
+  getKicks: (
+    current: Tetromino,
+    rotated: Tetromino,
+    playField: PlayField
+  ) => ReadonlyArray<Pos>;
+}
+
+/**
+ * Lock delay reset policies.
+ * MOVE = moving or rotating resets the lock delay, up to a number of resets
+ * STEP = the lock delay resets only when the tetromino reaches a new lowest row
+ * INFINITE = moving or rotating always resets the lock delay
+ * NONE = no lock delay, the tetromino locks as soon as it lands
+ */
+export type LockResetPolicy = "MOVE" | "STEP" | "INFINITE" | "NONE";
+
+/**
+ * Available rotation systems.
+ * SRS = Super Rotation System, the guideline rotation with wall kicks
+ * NRS = Nintendo Rotation System (NES), no kicks and right-handed I, S and Z
+ * ARS = Arika Rotation System (TGM), bottom-aligned with simple wall and floor kicks
+ */
+export type RotationSystemType = "SRS" | "NRS" | "ARS";
+
+/**
+ * Game actions that can be held down, e.g. for the Initial Rotation System (IRS),
+ * the Initial Hold System (IHS) and auto shift.
+ */
+export type GameAction =
+  | "MOVE_LEFT"
+  | "MOVE_RIGHT"
+  | "SOFT_DROP"
+  | "ROTATE_CW"
+  | "ROTATE_CCW"
+  | "ROTATE_180"
+  | "HOLD";
+
+/**
+ * Discrete actions that are buffered when pressed during a line clear or
+ * entry delay, and replayed when the next tetromino spawns.
+ */
+export type BufferedAction =
+  | "ROTATE_CW"
+  | "ROTATE_CCW"
+  | "ROTATE_180"
+  | "HOLD"
+  | "HARD_DROP";
+
+/**
+ * How held movement keys repeat, tuned by each player.
+ */
+export type Handling = Readonly<{
+  /**
+   * Delayed Auto Shift (DAS), time in ms a move is held before it repeats.
+   */
+  das: number;
+  /**
+   * Auto Repeat Rate (ARR), time in ms between repeated moves,
+   * 0 moves to the wall at once.
+   */
+  arr: number;
+  /**
+   * Soft Drop Factor (SDF), multiplies gravity while soft dropping,
+   * Infinity drops to the floor at once.
+   */
+  sdf: number;
+  /**
+   * DAS cut, time in ms after a spawn before moves repeat again.
+   */
+  dasCut: number;
+  /**
+   * Whether the DAS charge is kept across pieces, else it starts again on spawn.
+   */
+  preserveDas: boolean;
+}>;
+
 /**
  * Nullable type.
  */
 export type Nullable<T> = T | null;
 
 /**
- * List of accepted keyboard keys
+ * Keyboard key, the KeyboardEvent.code of the key, e.g. "KeyA" or "ArrowLeft".
  */
-export type Key =
-  | "KeyS"
-  | "KeyA"
-  | "KeyD"
-  | "KeyW"
-  | "KeyC"
-  | "KeyZ"
-  | "KeyR"
-  | "KeyP"
-  | "Enter"
-  | "Space"
-  | "ArrowUp"
-  | "ArrowDown"
-  | "ArrowLeft"
-  | "ArrowRight";
+export type Key = string;
+
+/**
+ * Actions that can be bound to keys and gamepad buttons.
+ */
+export type ControlAction =
+  | "HARD_DROP"
+  | GameAction
+  | "PAUSE"
+  | "RESTART"
+  | "EDIT";
+
+/**
+ * Inputs bound to each action, an action can have any number of inputs.
+ */
+export type Bindings<T> = Readonly<Record<ControlAction, ReadonlyArray<T>>>;
+
+export type KeyBindings = Bindings<Key>;
+
+/**
+ * Gamepad buttons bound to each action, by their index in the standard mapping.
+ */
+export type ButtonBindings = Bindings<number>;
+
+/**
+ * An input that was bound to another action when it was rebound.
+ */
+export type BindingConflict<T> = Readonly<{
+  key: T;
+  action: ControlAction;
+}>;
+
+export type KeyConflict = BindingConflict<Key>;
+
+/**
+ * Commands of the bindings table, bind a key, bind a gamepad button or clear both.
+ */
+export type BindCommand = "bind" | "pad" | "clear";
+
+/**
+ * Key and button bindings after a rebind, and the conflict it resolved, if any.
+ */
+export type Rebound = readonly [
+  KeyBindings,
+  ButtonBindings,
+  Nullable<BindingConflict<Key | number>>
+];
+
+/**
+ * The parts of a Gamepad that are read, so a fake gamepad can be used in tests.
+ */
+export type GamepadState = Readonly<{
+  buttons: ReadonlyArray<Readonly<{ pressed: boolean }>>;
+  axes: ReadonlyArray<number>;
+}>;
+
+/**
+ * A press or release of a control action.
+ */
+export type ActionInput = Readonly<{
+  action: ControlAction;
+  pressed: boolean;
+}>;
+
+/**
+ * A touch on the screen, in client pixels, at a time in ms.
+ */
+export type TouchPoint = Readonly<{
+  x: number;
+  y: number;
+  time: number;
+}>;
+
+/**
+ * A touch gesture on the board, from the first finger down until every
+ * finger is lifted.
+ */
+export type TouchGesture = Readonly<{
+  start: TouchPoint; // where the first finger touched
+  last: TouchPoint; // where the first finger was last seen
+  fingers: number; // most fingers down at once
+  ended: boolean; // whether every finger is lifted
+}>;
+
+/**
+ * Touch gestures on the board.
+ * DRAG_LEFT/DRAG_RIGHT = a finger dragged one cell
+ * TAP = a quick touch without moving
+ * TWO_FINGER_TAP = a tap with a second finger down
+ * FLICK = a quick swipe down
+ */
+export type Gesture =
+  | "DRAG_LEFT"
+  | "DRAG_RIGHT"
+  | "TAP"
+  | "TWO_FINGER_TAP"
+  | "FLICK";
 
 /**
  * List of accepted key codes
@@ -58,11 +250,109 @@ export type ColorRecordValue = ColorRecord[keyof ColorRecord];
  * Rotation direction.
  * 1 = clockwise
  * -1 = counterclockwise
+ * 2 = 180 degrees
  */
-export type RotateDirection = -1 | 1;
+export type RotateDirection = -1 | 1 | 2;
 
 export type RotationState = keyof typeof RotationOffset;
 
+/**
+ * Type of spin detected when a tetromino is locked.
+ */
+export type SpinType = "T_SPIN" | "T_SPIN_MINI";
+
+/**
+ * Rules of a game. Each game can be played with its own config.
+ */
+export type GameConfig = Readonly<{
+  /**
+   * Time in ms a grounded tetromino waits before locking.
+   */
+  lockDelay: number;
+  /**
+   * Number of times the lock delay can be reset by moving.
+   * Restored when the tetromino reaches a new lowest row.
+   */
+  lockDelayResetCount: number;
+  /**
+   * How moving or rotating a grounded tetromino resets the lock delay.
+   */
+  lockResetPolicy: LockResetPolicy;
+  /**
+   * Time in ms filled rows are shown before they collapse.
+   */
+  lineClearDelay: number;
+  /**
+   * Time in ms before the next tetromino spawns (ARE).
+   */
+  entryDelay: number;
+  levelStart: number;
+  levelMax: number;
+  linesPerLevel: number;
+  /**
+   * Gravity in G (rows per frame, fractional allowed) for each level.
+   * 1/60 drops a row every second at 60 fps, 20 or more drops instantly (20G).
+   */
+  gravityTable: Readonly<Record<number, number>>;
+  /**
+   * Points for each clear action and drop.
+   */
+  scoringRules: Readonly<Record<string, number>>;
+  /**
+   * Visible width (clamped to 4-20) and height (clamped to 10-40) of the playField.
+   */
+  boardWidth: number;
+  boardHeight: number;
+  /**
+   * Hidden rows above the visible playField.
+   */
+  bufferHeight: number;
+  /**
+   * Length of the next queue, clamped to 1-7.
+   */
+  nextQueueLength: number;
+  /**
+   * Randomizer generating the sequence of tetrominoes.
+   */
+  randomizer: RandomizerType;
+  /**
+   * Rotation system used to spawn and rotate tetrominoes.
+   */
+  rotationSystem: RotationSystemType;
+  /**
+   * Pieces that can be dealt, a shipped piece set or a user-defined one.
+   */
+  pieces: PieceSetType | PieceSet;
+  /**
+   * Game mode, deciding when the game is completed.
+   */
+  mode: GameMode;
+  /**
+   * Lines to clear to complete a marathon, Infinity for an endless marathon.
+   */
+  marathonLineTarget: number;
+  /**
+   * Garbage rows to dig out to complete a cheese race.
+   */
+  cheeseRows: number;
+  /**
+   * Chance from 0 to 1 of a cheese row having its hole in a new column.
+   */
+  cheeseMessiness: number;
+  /**
+   * Cheese rows kept on the playField, regenerated as they are cleared.
+   */
+  cheeseVisibleRows: number;
+  /**
+   * Puzzle played in the puzzle mode.
+   */
+  puzzle: Puzzle;
+  /**
+   * How held movement keys repeat.
+   */
+  handling: Handling;
+}>;
+
 export type State = Readonly<{
   /**
    * Currently active tetromino.
@@ -70,18 +360,29 @@ export type State = Readonly<{
   active: Readonly<{
     tetromino: Tetromino;
     ghost: Tetromino;
+    /**
+     * Kick used by the last successful move, if that move was a rotation.
+     * Null once the tetromino has moved in any other way.
+     */
+    lastRotation: Nullable<
+      Readonly<{
+        rotateDirection: RotateDirection;
+        kickIndex: number;
+      }>
+    >;
     lock: Readonly<{
       timerStart: number;
       ready: boolean;
       resettedCount: number;
+      lowestRow: number;
     }>;
   }>;
 
   /**
-   * Next tetromino.
+   * Next queue, derived from the sequence of upcoming tetrominoes.
    */
   next: Readonly<{
-    tetromino: Tetromino;
+    queue: ReadonlyArray<Tetromino>;
     nextSequence: LazyArraySequence<TetrominoType>;
   }>;
 
@@ -91,8 +392,19 @@ export type State = Readonly<{
   metrics: Readonly<{
     lockCount: number;
     rowsCleared: number;
+    /**
+     * Clear action of the last lock that scored one, kept until the next.
+     */
     clearAction: Nullable<keyof typeof ScoreTable>;
+    /**
+     * Clear action of the last line clear, used to chain back-to-back clears.
+     */
     prevClearAction: Nullable<keyof typeof ScoreTable>;
+    /**
+     * Number of consecutive back-to-back clears in the current chain.
+     */
+    backToBack: number;
+    perfectClears: number;
 
     maxCombo: number;
     score: number;
@@ -104,6 +416,10 @@ export type State = Readonly<{
     currentTime: number;
     endTime: number;
     holdCount: number;
+    /**
+     * Garbage rows sent by clears, after cancelling pending garbage.
+     */
+    garbageSent: number;
   }>;
   /**
    * Tetromino that is currently being held.
@@ -118,21 +434,254 @@ export type State = Readonly<{
    */
   playField: PlayField;
 
+  /**
+   * Rules of the game.
+   */
+  config: GameConfig;
+
   /**
    * Whether the game has ended.
    */
   gameEnd: boolean;
+  /**
+   * Why the game has ended.
+   */
+  gameEndReason: Nullable<GameEndReason>;
   /**
    * Whether the game is paused.
    */
   gamePaused: boolean;
+  /**
+   * Current phase of the game, and when it started.
+   */
+  phase: Readonly<{
+    type: GamePhase;
+    startTime: number;
+  }>;
+  /**
+   * Garbage rows of a cheese race, generated from a seed.
+   */
+  cheese: Readonly<{
+    seed: number;
+    /**
+     * Cheese rows on the playField, always at the bottom.
+     */
+    rows: number;
+    /**
+     * Cheese rows not generated yet.
+     */
+    remaining: number;
+    hole: Nullable<number>;
+  }>;
+  /**
+   * Garbage waiting to be inserted when the next tetromino locks without clearing rows.
+   */
+  pendingGarbage: ReadonlyArray<GarbageAttack>;
+  /**
+   * Game actions currently held down, in the order they were pressed.
+   */
+  heldActions: ReadonlyArray<GameAction>;
+  /**
+   * Actions pressed during a line clear or entry delay, in the order they
+   * were pressed.
+   */
+  bufferedActions: ReadonlyArray<BufferedAction>;
+  /**
+   * Auto shift of a held move, charged for DAS then repeated every ARR.
+   */
+  autoShift: Readonly<{
+    /**
+     * Time the DAS charge started.
+     */
+    start: number;
+    /**
+     * Time of the last repeated move, null until the first one.
+     */
+    shifted: Nullable<number>;
+    /**
+     * Time moves can repeat again, after the DAS cut of a spawn.
+     */
+    resume: number;
+  }>;
   /**
    * Whether the game is restarting.
    */
   gameWillRestart: boolean;
+  /**
+   * Board editor, the game is paused while editing.
+   */
+  editor: Readonly<{
+    editing: boolean;
+    /**
+     * Piece type painted on the board, any other character is a garbage
+     * block and null erases.
+     */
+    brush: Nullable<string>;
+    sequence: ReadonlyArray<TetrominoType>;
+    hold: Nullable<TetrominoType>;
+  }>;
 }>;
 
-export type TetrominoType = "I" | "J" | "L" | "O" | "S" | "T" | "Z";
+/**
+ * Starting position of a game, e.g. built in the board editor.
+ */
+export type StartPosition = Readonly<{
+  playField: PlayField;
+  /**
+   * Pieces dealt first, before the randomizer of the game.
+   */
+  sequence: ReadonlyArray<TetrominoType>;
+  hold: Nullable<TetrominoType>;
+}>;
+
+/**
+ * Reason the game has ended.
+ * BLOCK_OUT = a tetromino spawned overlapping blocks
+ * LOCK_OUT = a tetromino locked entirely above the visible playfield
+ * TOP_OUT = garbage pushed blocks above the top of the playfield
+ * COMPLETED = the goal of the game mode was reached
+ * FAILED = the pieces of the puzzle ran out before its goal was reached
+ */
+export type GameEndReason =
+  | "BLOCK_OUT"
+  | "LOCK_OUT"
+  | "TOP_OUT"
+  | "COMPLETED"
+  | "FAILED";
+
+/**
+ * Phases of the game.
+ * FALLING = the active tetromino is in the air
+ * LOCKING = the active tetromino is on the ground, waiting for the lock delay
+ * LINE_CLEAR = filled rows are shown before they collapse
+ * ENTRY = waiting to spawn the next tetromino (ARE)
+ */
+export type GamePhase = "FALLING" | "LOCKING" | "LINE_CLEAR" | "ENTRY";
+
+/**
+ * Garbage rows received at once, sharing the same hole column.
+ */
+export type GarbageAttack = Readonly<{
+  rows: number;
+  hole: number;
+}>;
+
+/**
+ * Game modes, each with its own goal.
+ * MARATHON = ends when the line target is cleared, endless by default
+ * SPRINT = ends when 40 lines are cleared, played for time
+ * ULTRA = ends after 2 minutes, played for score
+ * CHEESE = ends when all garbage rows are dug out, played for time and pieces
+ * PUZZLE = ends when the puzzle goal is reached, or fails when the pieces run out
+ */
+export type GameMode = "MARATHON" | "SPRINT" | "ULTRA" | "CHEESE" | "PUZZLE";
+
+/**
+ * Goals of a puzzle, reached once the count is met.
+ * CLEAR_LINES = clear count lines
+ * PERFECT_CLEAR = get count perfect clears
+ * T_SPIN_DOUBLE = clear a T-spin double, the count is unused
+ * SURVIVE = lock count pieces without topping out
+ */
+export type PuzzleGoalType =
+  | "CLEAR_LINES"
+  | "PERFECT_CLEAR"
+  | "T_SPIN_DOUBLE"
+  | "SURVIVE";
+
+/**
+ * A puzzle, defined as data so it can be authored as JSON.
+ */
+export type Puzzle = Readonly<{
+  /**
+   * Rows of the starting board, aligned to the bottom of the playField.
+   * "." is an empty cell, a piece type is a block of its color, and any
+   * other character is a garbage block.
+   */
+  board: ReadonlyArray<string>;
+  /**
+   * Pieces dealt in order, the puzzle fails when they run out.
+   */
+  sequence: ReadonlyArray<TetrominoType>;
+  hold: Nullable<TetrominoType>;
+  goal: Readonly<{
+    type: PuzzleGoalType;
+    count: number;
+  }>;
+}>;
+
+/**
+ * The seven standard tetrominoes.
+ */
+export type StandardTetrominoType = "I" | "J" | "L" | "O" | "S" | "T" | "Z";
+
+/**
+ * Pieces of the shipped pentomino and small piece sets, suffixed with their size.
+ */
+export type ShippedPieceType =
+  | "F5"
+  | "I5"
+  | "L5"
+  | "N5"
+  | "P5"
+  | "T5"
+  | "U5"
+  | "V5"
+  | "W5"
+  | "X5"
+  | "Y5"
+  | "Z5"
+  | "I1"
+  | "I2"
+  | "I3"
+  | "L3";
+
+/**
+ * Type of a piece of a user-defined piece set. Only made by getPieceType,
+ * once the key is found in the piece set.
+ */
+export type CustomPieceType = string & { readonly __customPieceType: true };
+
+/**
+ * Type of a piece, the key of a piece in its piece set.
+ */
+export type TetrominoType =
+  | StandardTetrominoType
+  | ShippedPieceType
+  | CustomPieceType;
+
+/**
+ * A piece, defined as data.
+ */
+export type PieceDefinition = Readonly<{
+  /**
+   * Filled cells of the spawn state, in a square box rotated about its center.
+   */
+  shape: ReadonlyArray<ReadonlyArray<0 | 1>>;
+  color: ColorRecordValue;
+  /**
+   * SRS offsets of each rotation state, kicks are the differences between two states.
+   */
+  kicks: ReadonlyArray<ReadonlyArray<PosArray>>;
+  /**
+   * Offset from the spawn position centered below the buffer zone.
+   */
+  spawnOffset: PosArray;
+}>;
+
+/**
+ * Pieces that can be dealt, keyed by piece type. Keys of a user-defined
+ * piece set are any string, read as piece types by getPieceTypes.
+ */
+export type PieceSet = Readonly<Record<string, PieceDefinition>>;
+
+/**
+ * Available piece sets.
+ * TETROMINOES = the seven standard tetrominoes
+ * PENTOMINOES = the twelve pentominoes
+ * SMALL = the monomino, the domino and the two trominoes
+ */
+export type PieceSetType = "TETROMINOES" | "PENTOMINOES" | "SMALL";
 
 export type Cell = Readonly<{
   filled: 0 | 1;
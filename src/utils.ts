@@ -2,9 +2,56 @@
  * Utility functions.
  */
 import { Observable, map, scan } from "rxjs";
-import { Grid, Pos, Tetromino } from "./classes";
-import { GravityLevelTable, RotationOffset, Tetrominos } from "./constants";
-import { Cell, ColorRecordValue, Nullable, TetrominoType } from "./types";
+import {
+  ArsRotationSystem,
+  Grid,
+  MemorylessRandomizer,
+  NesRandomizer,
+  NrsRotationSystem,
+  Pos,
+  SrsRotationSystem,
+  Tetromino,
+  TetrominoBagFactory,
+  TgmRandomizer,
+} from "./classes";
+import {
+  ControlActionText,
+  Controls,
+  DefaultButtonBindings,
+  DefaultHandling,
+  DefaultKeyBindings,
+  GameModeText,
+  GamepadButtonText,
+  PieceSets,
+  PuzzleGoalTypes,
+  RotationOffset180,
+  Settings,
+} from "./constants";
+import {
+  Cell,
+  BindingConflict,
+  Bindings,
+  ButtonBindings,
+  ColorRecordValue,
+  ControlAction,
+  GameConfig,
+  GameMode,
+  Handling,
+  Key,
+  KeyBindings,
+  LazyArraySequence,
+  Nullable,
+  PieceDefinition,
+  PieceSet,
+  Puzzle,
+  Randomizer,
+  RandomizerType,
+  RotateDirection,
+  RotationState,
+  RotationSystem,
+  RotationSystemType,
+  TetrominoType,
+} from "./types";
 
 /************** FP helpers ******************/
 
@@ -98,38 +145,194 @@ export const makeGrid =
  * Creates a Tetromino of the specified type at the specified position.
  * @param pos Position of the Tetromino
  * @param type Type of the Tetromino
+ * @param rotationSystem Rotation system giving the spawn shape
+ * @param pieces Piece set defining the Tetromino
  * @returns Tetromino of the Tetromino
  */
-export const getTetromino = (pos: Pos, type: TetrominoType) =>
-  new Tetromino(pos, new Grid(Tetrominos[type]), type, 0);
+export const getTetromino = (
+  pos: Pos,
+  type: TetrominoType,
+  rotationSystem: RotationSystemType = "SRS",
+  pieces: GameConfig["pieces"] = "TETROMINOES"
+) =>
+  new Tetromino(
+    pos,
+    getRotationSystem(rotationSystem, pieces).getGrid(type, 0),
+    type,
+    0
+  );
+
+/**
+ * Gets the rotation system of a type.
+ * @param type Type of the rotation system
+ * @param pieces Piece set to rotate
+ * @returns Rotation system
+ */
+export const getRotationSystem = (
+  type: RotationSystemType,
+  pieces: GameConfig["pieces"] = "TETROMINOES"
+): RotationSystem =>
+  ({
+    SRS: () => new SrsRotationSystem(getPieceSet(pieces)),
+    NRS: () => new NrsRotationSystem(getPieceSet(pieces)),
+    ARS: () => new ArsRotationSystem(getPieceSet(pieces)),
+  }[type]());
+
+/**
+ * Gets a piece set, either shipped or user-defined.
+ * @param pieces Type of a shipped piece set, or a user-defined piece set
+ * @returns Piece set
+ */
+export const getPieceSet = (pieces: GameConfig["pieces"]): PieceSet =>
+  typeof pieces === "string" ? PieceSets[pieces] : pieces;
+
+/**
+ * Gets the types of the pieces of a piece set.
+ * @param pieces Type of a shipped piece set, or a user-defined piece set
+ * @returns Piece types, in the order of the piece set
+ */
+export const getPieceTypes = (
+  pieces: GameConfig["pieces"]
+): ReadonlyArray<TetrominoType> =>
+  Object.keys(getPieceSet(pieces)) as TetrominoType[];
+
+/**
+ * Checks a piece type typed or loaded by the player against a piece set.
+ * @param pieces Type of a shipped piece set, or a user-defined piece set
+ * @param key Piece type to check
+ * @returns Piece type, or null if the piece set has no such piece
+ */
+export const getPieceType = (
+  pieces: GameConfig["pieces"],
+  key: string
+): Nullable<TetrominoType> =>
+  getPieceTypes(pieces).find((type) => type === key) ?? null;
+
+/**
+ * Creates the grid of a piece in its spawn state.
+ * @param piece Piece definition
+ * @returns Grid of the piece
+ */
+export const getPieceGrid = (piece: PieceDefinition): Grid =>
+  new Grid(
+    piece.shape.map((row) =>
+      row.map((filled) => ({ filled, color: filled ? piece.color : null }))
+    )
+  );
+
+/**
+ * Rotates a grid from rotation state 0 to a rotation state.
+ * @param grid Grid in rotation state 0
+ * @param rotationState Rotation state to rotate to
+ * @returns Rotated grid
+ */
+export const rotateGridTo = (grid: Grid, rotationState: RotationState): Grid =>
+  rotationState === 0
+    ? grid
+    : grid.rotate(
+        rotationState === 3 ? -1 : (rotationState as RotateDirection)
+      );
+
+/**
+ * Creates a randomizer of the specified type.
+ * @param type Type of the randomizer
+ * @param seed Seed of the randomizer
+ * @param items Types of the pieces to deal
+ * @returns Randomizer of the specified type
+ */
+export const getRandomizer = (
+  type: RandomizerType,
+  seed: number,
+  items: ReadonlyArray<TetrominoType> = TetrominoBagFactory.BAG_ITEMS
+): Randomizer =>
+  ({
+    BAG_7: () => new TetrominoBagFactory(seed, 1, items),
+    BAG_14: () => new TetrominoBagFactory(seed, 2, items),
+    MEMORYLESS: () => new MemorylessRandomizer(seed, items),
+    NES: () => new NesRandomizer(seed, items),
+    TGM: () => new TgmRandomizer(seed, items),
+  }[type]());
+
+/**
+ * Returns the first values of a lazy array sequence, without consuming it.
+ * @param sequence Sequence to peek
+ * @param length Number of values to return
+ * @returns Array of the first `length` values of the sequence
+ */
+export const peek = <T>(
+  sequence: LazyArraySequence<T>,
+  length: number
+): ReadonlyArray<T> =>
+  length <= 0 ? [] : [sequence.value, ...peek(sequence.next(), length - 1)];
+
+/**
+ * Returns the spawn position of a tetromino, below the buffer zone and
+ * centered in the width of the board.
+ * @param config Game config
+ * @param type Type of the tetromino
+ * @returns Spawn position
+ */
+export const getSpawnPos = (config: GameConfig, type: TetrominoType) => {
+  const cells = getRotationSystem(config.rotationSystem, config.pieces).getGrid(
+    type,
+    0
+  ).cells;
+  const filledColumns = cells[0]
+    .map((_, x) => x)
+    .filter((x) => cells.some((row) => row[x].filled));
+  const tetrominoWidth =
+    filledColumns[filledColumns.length - 1] - filledColumns[0] + 1;
+  return new Pos(
+    // center the filled columns, rounding to the left
+    Math.floor((config.boardWidth - tetrominoWidth) / 2) - filledColumns[0],
+    Settings.TETROMINO_SPAWN_Y + config.bufferHeight
+  ).add(new Pos(...getPieceSet(config.pieces)[type].spawnOffset));
+};
 
 /**
  * Returns the gravity of the specified level.
+ * @param gravityTable Table of gravity for each level
  * @param level Level to get the gravity of
  * @returns Gravity of the specified level
  * @throws Error if the level is invalid
  */
-export const getGravity = (level: number) => {
-  if (level in GravityLevelTable) {
-    return GravityLevelTable[level];
-  } else {
-    throw new Error("Invalid level");
-  }
-};
+export const getGravity =
+  (gravityTable: GameConfig["gravityTable"]) => (level: number) => {
+    if (level in gravityTable) {
+      return gravityTable[level];
+    } else {
+      throw new Error("Invalid level");
+    }
+  };
 
 /**
  * Get the offset differences between the current tetromino
- * and the rotated tetromino from the RotationOffset table.
+ * and the rotated tetromino from the kicks of its piece definition.
+ * A 180 degree rotation uses the RotationOffset180 kicks instead,
+ * on top of the correction between the two states.
  * @param current Current tetromino
  * @param rotated Rotated tetromino
+ * @param pieces Piece set defining the tetromino
  * @returns An array of Pos representing the differences between the current tetromino and the rotated tetromino.
  */
-export const getOffset = (current: Tetromino, rotated: Tetromino) => {
-  const currentOffsets = RotationOffset[current.rotationState][current.type];
-  const rotatedOffsets = RotationOffset[rotated.rotationState][rotated.type];
-  return currentOffsets.map((offset, index) =>
+export const getOffset = (
+  current: Tetromino,
+  rotated: Tetromino,
+  pieces: PieceSet = PieceSets.TETROMINOES
+) => {
+  const currentOffsets = pieces[current.type].kicks[current.rotationState];
+  const rotatedOffsets = pieces[rotated.type].kicks[rotated.rotationState];
+  const offsets = currentOffsets.map((offset, index) =>
     new Pos(...offset).minus(new Pos(...rotatedOffsets[index])).scaleY(-1)
   );
+  const isHalfTurn =
+    (rotated.rotationState - current.rotationState + 4) % 4 === 2;
+  // tetrominoes without kicks (O) only need the correction
+  return isHalfTurn && offsets.length > 1
+    ? RotationOffset180[current.rotationState].map((kick) =>
+        offsets[0].add(new Pos(...kick).scaleY(-1))
+      )
+    : offsets;
 };
 
 /**
@@ -146,6 +349,379 @@ export const formatTime = (seconds: number) => {
   ).padStart(3, "0")}`;
 };
 
+/***************** Game config *****************/
+
+/**
+ * Reads a number from a parameter of the URL.
+ * @param params parameters of the URL
+ * @param name name of the parameter
+ * @returns the number, or null if it is missing or not a finite number
+ */
+const getNumberParam = (
+  params: Pick<URLSearchParams, "get">,
+  name: string
+): Nullable<number> => {
+  const value = params.get(name);
+  return value === null || value.trim() === "" || !isFinite(Number(value))
+    ? null
+    : Number(value);
+};
+
+/**
+ * Gets the rules of a game from the parameters of the URL, e.g.
+ * ?mode=SPRINT, ?mode=MARATHON&lines=150, ?mode=CHEESE&cheese=100&messiness=0.3
+ * or ?width=4&height=20. Parameters that are missing or invalid are left out,
+ * so they keep their defaults. The board size is clamped by getFreshState.
+ * @param params parameters of the URL
+ * @returns rules set by the URL
+ */
+export const getUrlConfig = (
+  params: Pick<URLSearchParams, "get">
+): Partial<GameConfig> => {
+  const mode = params.get("mode");
+  const lines = getNumberParam(params, "lines");
+  const cheese = getNumberParam(params, "cheese");
+  const messiness = getNumberParam(params, "messiness");
+  const width = getNumberParam(params, "width");
+  const height = getNumberParam(params, "height");
+  return {
+    ...(mode !== null && Object.keys(GameModeText).includes(mode)
+      ? { mode: mode as GameMode }
+      : {}),
+    ...(lines !== null && lines > 0
+      ? { marathonLineTarget: Math.floor(lines) }
+      : {}),
+    ...(cheese !== null && cheese >= 1
+      ? { cheeseRows: Math.floor(cheese) }
+      : {}),
+    ...(messiness !== null && messiness >= 0 && messiness <= 1
+      ? { cheeseMessiness: messiness }
+      : {}),
+    ...(width !== null ? { boardWidth: Math.floor(width) } : {}),
+    ...(height !== null ? { boardHeight: Math.floor(height) } : {}),
+  };
+};
+
+/**
+ * Parses a puzzle authored as JSON, e.g. from the URL, checking it can be
+ * played with the rules of the game. The board must fit the visible playField,
+ * every piece must be in the piece set and the goal must be known.
+ * @param json puzzle as JSON
+ * @param config rules of the game the puzzle is played with
+ * @returns the puzzle, or null if it is malformed or cannot be played
+ */
+export const parsePuzzle = (
+  json: string,
+  config: GameConfig
+): Nullable<Puzzle> => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  })();
+  if (typeof parsed !== "object" || parsed === null) {
+    return null;
+  }
+  const { board, sequence, hold, goal } = parsed;
+  const isPieceType = (key: unknown) =>
+    typeof key === "string" && getPieceType(config.pieces, key) !== null;
+  return Array.isArray(board) &&
+    board.length <= config.boardHeight &&
+    board.every(
+      (row) => typeof row === "string" && row.length <= config.boardWidth
+    ) &&
+    Array.isArray(sequence) &&
+    sequence.length > 0 &&
+    sequence.every(isPieceType) &&
+    (hold === null || isPieceType(hold)) &&
+    typeof goal === "object" &&
+    goal !== null &&
+    PuzzleGoalTypes.includes(goal.type) &&
+    typeof goal.count === "number" &&
+    goal.count >= 0
+    ? {
+        board: board,
+        sequence: sequence,
+        hold: hold,
+        goal: { type: goal.type, count: goal.count },
+      }
+    : null;
+};
+
+/***************** Key bindings *****************/
+
+/**
+ * Formats a key code for display, e.g. "KeyA" as "A" and "Digit1" as "1".
+ * @param key key code
+ * @returns formatted key
+ */
+export const formatKey = (key: Key) => key.replace(/^(Key|Digit)(?=.)/, "");
+
+/**
+ * Formats a gamepad button for display, e.g. 0 as "A".
+ * @param button index of the button in the standard mapping
+ * @returns formatted button
+ */
+export const formatButton = (button: number) =>
+  GamepadButtonText[button] ?? `Button ${button}`;
+
+/**
+ * Finds the other action a key or button is bound to, if any.
+ * @param bindings key or button bindings
+ * @param action action the key is being bound to
+ * @param key key code or button
+ * @returns the key and the other action it is bound to, or null
+ */
+export const getConflict = <T>(
+  bindings: Bindings<T>,
+  action: ControlAction,
+  key: T
+): Nullable<BindingConflict<T>> => {
+  const other = (Object.keys(bindings) as ControlAction[]).find(
+    (a) => a !== action && bindings[a].includes(key)
+  );
+  return other === undefined ? null : { key: key, action: other };
+};
+
+/**
+ * Binds a key or button to an action, unbinding it from any other action so
+ * an input never triggers two actions.
+ * @param bindings key or button bindings
+ * @param action action to bind the key to
+ * @param key key code or button
+ * @returns updated bindings
+ */
+export const bindKey = <T>(
+  bindings: Bindings<T>,
+  action: ControlAction,
+  key: T
+): Bindings<T> =>
+  (Object.keys(bindings) as ControlAction[]).reduce(
+    (acc, a) => ({
+      ...acc,
+      [a]:
+        a === action
+          ? [...bindings[a].filter((k) => k !== key), key]
+          : bindings[a].filter((k) => k !== key),
+    }),
+    bindings
+  );
+
+/**
+ * Unbinds all keys or buttons of an action.
+ * @param bindings key or button bindings
+ * @param action action to unbind
+ * @returns updated bindings
+ */
+export const clearKeys = <T>(
+  bindings: Bindings<T>,
+  action: ControlAction
+): Bindings<T> => ({ ...bindings, [action]: [] });
+
+/**
+ * Loads the bindings saved in storage, actions that are missing or
+ * invalid keep their defaults.
+ * @param storage storage to load from, e.g. localStorage
+ * @param storageKey key the bindings are saved at
+ * @param defaults default bindings
+ * @param type type of the keys or buttons
+ * @returns bindings
+ */
+const loadBindings = <T>(
+  storage: Pick<Storage, "getItem">,
+  storageKey: string,
+  defaults: Bindings<T>,
+  type: "string" | "number"
+): Bindings<T> => {
+  const saved = (() => {
+    try {
+      return JSON.parse(storage.getItem(storageKey) ?? "{}");
+    } catch {
+      return {};
+    }
+  })();
+  return (Object.keys(defaults) as ControlAction[]).reduce((acc, action) => {
+    const keys = saved === null ? undefined : saved[action];
+    return Array.isArray(keys) && keys.every((key) => typeof key === type)
+      ? { ...acc, [action]: keys }
+      : acc;
+  }, defaults);
+};
+
+/**
+ * Loads the key bindings saved in storage, actions that are missing or
+ * invalid keep their default keys.
+ * @param storage storage to load from, e.g. localStorage
+ * @returns key bindings
+ */
+export const loadKeyBindings = (storage: Pick<Storage, "getItem">) =>
+  loadBindings(
+    storage,
+    Controls.BINDINGS_STORAGE_KEY,
+    DefaultKeyBindings,
+    "string"
+  );
+
+/**
+ * Loads the gamepad button bindings saved in storage, actions that are
+ * missing or invalid keep their default buttons.
+ * @param storage storage to load from, e.g. localStorage
+ * @returns button bindings
+ */
+export const loadButtonBindings = (storage: Pick<Storage, "getItem">) =>
+  loadBindings(
+    storage,
+    Controls.BUTTON_BINDINGS_STORAGE_KEY,
+    DefaultButtonBindings,
+    "number"
+  );
+
+/**
+ * Saves the key bindings to storage.
+ * @param storage storage to save to, e.g. localStorage
+ * @param bindings key bindings
+ */
+export const saveKeyBindings = (
+  storage: Pick<Storage, "setItem">,
+  bindings: KeyBindings
+) => storage.setItem(Controls.BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+
+/**
+ * Saves the gamepad button bindings to storage.
+ * @param storage storage to save to, e.g. localStorage
+ * @param bindings button bindings
+ */
+export const saveButtonBindings = (
+  storage: Pick<Storage, "setItem">,
+  bindings: ButtonBindings
+) =>
+  storage.setItem(
+    Controls.BUTTON_BINDINGS_STORAGE_KEY,
+    JSON.stringify(bindings)
+  );
+
+/**
+ * Sets a value of the handling from a settings field, keeping the old value
+ * if the new one is not a number of 0 or more. "∞" is Infinity, e.g. for the SDF.
+ * @param handling handling of the player
+ * @param name name of the value
+ * @param value typed value, or checked state of a checkbox
+ * @returns updated handling
+ */
+export const setHandlingValue = (
+  handling: Handling,
+  name: string,
+  value: string | boolean
+): Handling => {
+  if (!(name in DefaultHandling)) {
+    return handling;
+  }
+  const key = name as keyof Handling;
+  const parsed =
+    typeof value === "boolean"
+      ? value
+      : value.trim() === "∞"
+      ? Infinity
+      : value.trim() === ""
+      ? NaN
+      : Number(value);
+  return typeof parsed === typeof DefaultHandling[key] &&
+    (typeof parsed === "boolean" || parsed >= 0)
+    ? { ...handling, [key]: parsed }
+    : handling;
+};
+
+/**
+ * Loads the handling saved in storage, values that are missing or invalid
+ * keep their defaults.
+ * @param storage storage to load from, e.g. localStorage
+ * @returns handling
+ */
+export const loadHandling = (storage: Pick<Storage, "getItem">): Handling => {
+  const saved = (() => {
+    try {
+      return JSON.parse(storage.getItem(Controls.HANDLING_STORAGE_KEY) ?? "{}");
+    } catch {
+      return {};
+    }
+  })();
+  return (Object.keys(DefaultHandling) as (keyof Handling)[]).reduce(
+    (acc, key) => {
+      const value = saved === null ? undefined : saved[key];
+      return typeof value === "string" || typeof value === "boolean"
+        ? setHandlingValue(acc, key, value)
+        : typeof value === "number"
+        ? setHandlingValue(acc, key, String(value))
+        : acc;
+    },
+    DefaultHandling
+  );
+};
+
+/**
+ * Saves the handling to storage as the values of the settings fields,
+ * as JSON has no Infinity.
+ * @param storage storage to save to, e.g. localStorage
+ * @param handling handling
+ */
+export const saveHandling = (
+  storage: Pick<Storage, "setItem">,
+  handling: Handling
+) =>
+  storage.setItem(
+    Controls.HANDLING_STORAGE_KEY,
+    JSON.stringify(
+      (Object.keys(handling) as (keyof Handling)[]).reduce(
+        (acc, key) => ({
+          ...acc,
+          [key]:
+            typeof handling[key] === "boolean"
+              ? handling[key]
+              : formatHandlingValue(handling[key] as number),
+        }),
+        {}
+      )
+    )
+  );
+
+/**
+ * Formats a number of the handling for a settings field.
+ * @param value value of the handling
+ * @returns formatted value, "∞" for Infinity
+ */
+export const formatHandlingValue = (value: number) =>
+  value === Infinity ? "∞" : String(value);
+
+/**
+ * Formats key and button bindings as the markdown table of controls in the README.
+ * @param bindings key bindings
+ * @param buttons gamepad button bindings
+ * @returns markdown table
+ */
+export const formatKeyBindings = (
+  bindings: KeyBindings,
+  buttons: ButtonBindings
+) => {
+  const header = ["Key", "Gamepad", "Action"];
+  const rows = (Object.keys(bindings) as ControlAction[]).map((action) => [
+    bindings[action].map(formatKey).join(" \\| "),
+    buttons[action].map(formatButton).join(" \\| "),
+    ControlActionText[action],
+  ]);
+  const widths = header.map((_, i) =>
+    Math.max(3, ...[header, ...rows].map((row) => row[i].length))
+  );
+  const formatRow = (row: ReadonlyArray<string>) =>
+    `| ${row.map((cell, i) => cell.padEnd(widths[i])).join(" | ")} |`;
+  return [
+    formatRow(header),
+    formatRow(widths.map((width) => "-".repeat(width))),
+    ...rows.map(formatRow),
+  ].join("\n");
+};
+
 /***************** RNG *****************/
 
 /**
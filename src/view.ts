@@ -2,9 +2,39 @@
  * View module. Where all the creative stuff happens!
  * Represents the view of the game.
  */
-import { Block, HoldBlock, PreviewBlock, Viewport } from "./constants";
-import { ColorRecordValue, Nullable, State } from "./types";
-import { formatTime } from "./utils";
+import {
+  BindCommandText,
+  ControlActionText,
+  GameEndReasonText,
+  GameModeText,
+  GridSettings,
+  HoldBlock,
+  PreviewBlock,
+  Settings,
+  Viewport,
+} from "./constants";
+import { exportPuzzle, isPieceActive } from "./state";
+import {
+  BindCommand,
+  BindingConflict,
+  ButtonBindings,
+  ColorRecordValue,
+  ControlAction,
+  GameConfig,
+  GameMode,
+  Handling,
+  Key,
+  KeyBindings,
+  Nullable,
+  State,
+} from "./types";
+import {
+  formatButton,
+  formatHandlingValue,
+  formatKey,
+  formatTime,
+  getPieceTypes,
+} from "./utils";
 
 export class View {
   readonly svg: SVGGraphicsElement & HTMLElement;
@@ -13,6 +43,25 @@ export class View {
   readonly gameover: HTMLElement;
   readonly container: HTMLElement;
   readonly pausedOverlay: HTMLElement;
+  readonly errorMessage: HTMLElement;
+
+  // On-screen buttons
+  readonly touchControls: HTMLElement;
+
+  // Key bindings
+  readonly settings: HTMLElement;
+  readonly bindings: HTMLElement;
+  readonly bindingsMessage: HTMLElement;
+  readonly handling: HTMLFormElement;
+  readonly setup: HTMLFormElement;
+
+  // Board editor
+  readonly editor: HTMLElement;
+  readonly editorPalette: HTMLElement;
+  readonly editorQueue: HTMLInputElement;
+  readonly editorHold: HTMLInputElement;
+  readonly editorPlay: HTMLElement;
+  readonly editorExport: HTMLInputElement;
 
   // Text fields
   readonly levelText: HTMLElement;
@@ -20,6 +69,7 @@ export class View {
   readonly scoreText: HTMLElement;
   readonly highScoreText: HTMLElement;
   readonly clearAction: HTMLElement;
+  readonly backToBack: HTMLElement;
 
   constructor() {
     // Canvas elements
@@ -32,9 +82,49 @@ export class View {
     this.gameover = document.querySelector("#gameOver") as HTMLElement;
     this.container = document.querySelector("#main") as HTMLElement;
     this.clearAction = document.querySelector("#clearAction") as HTMLElement;
+    this.backToBack = document.querySelector("#backToBack") as HTMLElement;
     this.pausedOverlay = document.querySelector(
       "#pausedOverlay"
     ) as HTMLElement;
+    this.errorMessage = document.querySelector("#errorMessage") as HTMLElement;
+
+    // On-screen buttons
+    this.touchControls = document.querySelector(
+      "#touchControls"
+    ) as HTMLElement;
+
+    // Key bindings
+    this.settings = document.querySelector("#settings") as HTMLElement;
+    this.bindings = document.querySelector("#bindings") as HTMLElement;
+    this.bindingsMessage = document.querySelector(
+      "#bindingsMessage"
+    ) as HTMLElement;
+    this.handling = document.querySelector("#handling") as HTMLFormElement;
+    this.setup = document.querySelector("#setup") as HTMLFormElement;
+    (
+      this.setup.elements.namedItem("mode") as HTMLSelectElement
+    ).replaceChildren(
+      ...(Object.keys(GameModeText) as GameMode[]).map((mode) => {
+        const option = document.createElement("option");
+        option.value = mode;
+        option.textContent = GameModeText[mode];
+        return option;
+      })
+    );
+
+    // Board editor
+    this.editor = document.querySelector("#editor") as HTMLElement;
+    this.editorPalette = document.querySelector(
+      "#editorPalette"
+    ) as HTMLElement;
+    this.editorQueue = document.querySelector(
+      "#editorQueue"
+    ) as HTMLInputElement;
+    this.editorHold = document.querySelector("#editorHold") as HTMLInputElement;
+    this.editorPlay = document.querySelector("#editorPlay") as HTMLElement;
+    this.editorExport = document.querySelector(
+      "#editorExport"
+    ) as HTMLInputElement;
 
     // Text fields
     this.levelText = document.querySelector("#levelText") as HTMLElement;
@@ -44,14 +134,15 @@ export class View {
       "#highScoreText"
     ) as HTMLElement;
 
-    this.svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-    this.svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-
-    this.preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
     this.preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
 
     this.hold.setAttribute("height", `${Viewport.HOLD_HEIGHT}`);
     this.hold.setAttribute("width", `${Viewport.HOLD_WIDTH}`);
+    // the view boxes let the canvases be scaled down on small screens
+    this.hold.setAttribute(
+      "viewBox",
+      `0 0 ${Viewport.HOLD_WIDTH} ${Viewport.HOLD_HEIGHT}`
+    );
   }
 
   /**
@@ -62,9 +153,19 @@ export class View {
   render = (s: State) => {
     if (s.gamePaused) {
       this.unhide(this.pausedOverlay);
+      this.unhide(this.settings);
       return;
     }
     this.hide(this.pausedOverlay);
+    this.hide(this.settings);
+    if (s.editor.editing) {
+      this.hide(this.gameover);
+      this.unhide(this.editor);
+      this.updateEditor(s);
+      this.updateCanvas(s);
+      return;
+    }
+    this.hide(this.editor);
     if (s.gameEnd) {
       this.unhide(this.gameover);
       this.updateStatistics(s);
@@ -77,6 +178,164 @@ export class View {
     this.updateHold(s);
   };
 
+  /**
+   * Renders the key and gamepad bindings, with buttons to bind a key or a
+   * gamepad button to or clear each action.
+   * @param bindings key bindings
+   * @param buttonBindings gamepad button bindings
+   * @param conflict key or button unbound from another action by the last rebind, if any
+   */
+  renderBindings = (
+    bindings: KeyBindings,
+    buttonBindings: ButtonBindings,
+    conflict: Nullable<BindingConflict<Key | number>>
+  ) => {
+    const createButton = (action: ControlAction, command: BindCommand) => {
+      const button = document.createElement("button");
+      button.dataset.action = action;
+      button.dataset.command = command;
+      button.textContent = BindCommandText[command];
+      return button;
+    };
+    this.bindings.replaceChildren(
+      ...(Object.keys(bindings) as ControlAction[]).map((action) => {
+        const row = document.createElement("tr");
+        const cells = [
+          ControlActionText[action],
+          bindings[action].map(formatKey).join(" | "),
+          buttonBindings[action].map(formatButton).join(" | "),
+        ].map((text) => {
+          const cell = document.createElement("td");
+          cell.textContent = text;
+          return cell;
+        });
+        const buttons = document.createElement("td");
+        buttons.append(
+          ...(Object.keys(BindCommandText) as BindCommand[]).map((command) =>
+            createButton(action, command)
+          )
+        );
+        row.append(...cells, buttons);
+        return row;
+      })
+    );
+    this.bindingsMessage.textContent =
+      conflict === null
+        ? ""
+        : `${
+            typeof conflict.key === "number"
+              ? formatButton(conflict.key)
+              : formatKey(conflict.key)
+          } was unbound from ${ControlActionText[conflict.action]}.`;
+  };
+
+  /**
+   * Renders the handling in the settings fields.
+   * @param handling handling of the player
+   */
+  renderHandling = (handling: Handling) => {
+    (Object.keys(handling) as (keyof Handling)[]).forEach((key) => {
+      const input = this.handling.elements.namedItem(key) as HTMLInputElement;
+      const value = handling[key];
+      if (typeof value === "boolean") {
+        input.checked = value;
+      } else {
+        input.value = formatHandlingValue(value);
+      }
+    });
+  };
+
+  /**
+   * Renders the rules of the game in the setup fields, so a new game starts
+   * with the same rules unless they are changed.
+   * @param config rules of the game
+   */
+  renderSetup = (config: GameConfig) => {
+    const field = (name: string) =>
+      this.setup.elements.namedItem(name) as HTMLInputElement;
+    field("mode").value = config.mode;
+    field("lines").value = isFinite(config.marathonLineTarget)
+      ? `${config.marathonLineTarget}`
+      : "";
+    field("cheese").value = `${config.cheeseRows}`;
+    field("messiness").value = `${config.cheeseMessiness}`;
+    field("width").value = `${config.boardWidth}`;
+    field("height").value = `${config.boardHeight}`;
+  };
+
+  /**
+   * Shows an error above the game, e.g. when the URL cannot be loaded.
+   * @param message error to show
+   */
+  renderError = (message: string) => {
+    this.errorMessage.textContent = message;
+  };
+
+  /**
+   * Asks for the key to bind to an action.
+   * @param action action being bound
+   */
+  promptKey = (action: ControlAction) => {
+    this.bindingsMessage.textContent = `Press a key for ${ControlActionText[action]}, or Escape to cancel.`;
+  };
+
+  /**
+   * Asks for the gamepad button to bind to an action.
+   * @param action action being bound
+   */
+  promptButton = (action: ControlAction) => {
+    this.bindingsMessage.textContent = `Press a gamepad button for ${ControlActionText[action]}, or Escape to cancel.`;
+  };
+
+  /**
+   * Updates the board editor, fields being typed in are left as they are.
+   * @param s game State
+   */
+  updateEditor = (s: State) => {
+    this.updatePalette(s);
+    Array.from(this.editorPalette.children).forEach((button) =>
+      button.classList.toggle(
+        "selected",
+        (button as HTMLElement).dataset.piece === (s.editor.brush ?? "")
+      )
+    );
+    if (document.activeElement !== this.editorQueue) {
+      this.editorQueue.value = s.editor.sequence.join(" ");
+    }
+    if (document.activeElement !== this.editorHold) {
+      this.editorHold.value = s.editor.hold ?? "";
+    }
+    this.editorExport.value = `${window.location.origin}${
+      window.location.pathname
+    }?puzzle=${encodeURIComponent(JSON.stringify(exportPuzzle(s)))}`;
+  };
+
+  /**
+   * Updates the brushes of the board editor, a brush for each piece of the
+   * piece set, garbage and erase. Only replaced when the piece set changes,
+   * so a click is not lost.
+   * @param s game State
+   */
+  updatePalette = (s: State) => {
+    const types = getPieceTypes(s.config.pieces);
+    const paletteKey = types.join(" ");
+    if (this.editorPalette.dataset.key === paletteKey) {
+      return;
+    }
+    const createButton = (piece: string, text: string) => {
+      const button = document.createElement("button");
+      button.dataset.piece = piece;
+      button.textContent = text;
+      return button;
+    };
+    this.editorPalette.dataset.key = paletteKey;
+    this.editorPalette.replaceChildren(
+      ...types.map((type) => createButton(type, type)),
+      createButton("#", "#"),
+      createButton("", "Erase")
+    );
+  };
+
   /**
    * Unhides a HTML element.
    * @param elem HTML element to unhide
@@ -98,6 +357,9 @@ export class View {
    * @param s game State
    */
   updateStatistics = (s: State): void => {
+    const gameOverTitleElement = document.getElementById("gameOverTitle")!;
+    const gameEndReasonElement = document.getElementById("gameEndReason")!;
+    const modeResultElement = document.getElementById("modeResult")!;
     const highScoreElement = document.getElementById("metricHighScore")!;
 
     const maxComboElement = document.getElementById("metricMaxCombo")!;
@@ -115,8 +377,19 @@ export class View {
       "metricLinesPerMinute"
     )!;
     const holdsElement = document.getElementById("metricHolds")!;
+    const perfectClearsElement = document.getElementById(
+      "metricPerfectClears"
+    )!;
     const timePlayedMs = s.metrics.endTime - s.metrics.startTime;
 
+    gameOverTitleElement.innerHTML =
+      s.gameEndReason === "COMPLETED"
+        ? `${GameModeText[s.config.mode]} Complete`
+        : "Game Over";
+    gameEndReasonElement.innerHTML = s.gameEndReason
+      ? GameEndReasonText[s.gameEndReason]
+      : "";
+    modeResultElement.innerHTML = this.formatModeResult(s);
     scoreElement.innerHTML = `Total Score: ${s.metrics.score}`;
     highScoreElement.innerHTML = `High Score: ${s.metrics.hiScore}`;
 
@@ -140,6 +413,7 @@ export class View {
     )}`;
 
     holdsElement.innerHTML = `Holds: ${s.metrics.holdCount}`;
+    perfectClearsElement.innerHTML = `Perfect Clears: ${s.metrics.perfectClears}`;
 
     // Calculate time played (currentTime - startTime) and format it
     timePlayedElement.innerHTML = `Time Played: ${formatTime(
@@ -147,6 +421,36 @@ export class View {
     )}`;
   };
 
+  /**
+   * Formats the result of the game mode, e.g. the final time of a sprint.
+   * @param s game State
+   * @returns formatted result
+   */
+  formatModeResult = (s: State): string => {
+    const timePlayedMs = s.metrics.endTime - s.metrics.startTime;
+    return {
+      MARATHON: () =>
+        isFinite(s.config.marathonLineTarget)
+          ? `Lines: ${s.metrics.rowsCleared}/${s.config.marathonLineTarget}`
+          : `Lines: ${s.metrics.rowsCleared}`,
+      SPRINT: () =>
+        s.gameEndReason === "COMPLETED"
+          ? `Time: ${formatTime(timePlayedMs / 1000)}`
+          : `Lines: ${s.metrics.rowsCleared}/${Settings.SPRINT_LINES}`,
+      ULTRA: () => `Score: ${s.metrics.score}`,
+      CHEESE: () =>
+        s.gameEndReason === "COMPLETED"
+          ? `Time: ${formatTime(timePlayedMs / 1000)} Pieces: ${
+              s.metrics.lockCount
+            }`
+          : `Cheese Left: ${s.cheese.rows + s.cheese.remaining}`,
+      PUZZLE: () =>
+        `Pieces: ${s.metrics.lockCount}/${
+          s.config.puzzle.sequence.length + (s.config.puzzle.hold ? 1 : 0)
+        }`,
+    }[s.config.mode]();
+  };
+
   /**
    * Creates an SVG element with the given properties.
    *
@@ -177,6 +481,7 @@ export class View {
    * @param blockWidth width of the block
    * @param blockHeight height of the block
    * @param color color of the block
+   * @param clearing whether the block is in a row being cleared
    * @returns SVGElement block
    */
   createBlock = (
@@ -186,7 +491,8 @@ export class View {
     offsetY: number,
     blockWidth: number,
     blockHeight: number,
-    color: Nullable<ColorRecordValue> = null
+    color: Nullable<ColorRecordValue> = null,
+    clearing: boolean = false
   ) =>
     this.createSvgElement(this.svg.namespaceURI, "rect", {
       height: `${blockHeight}`,
@@ -194,6 +500,7 @@ export class View {
       x: `${blockWidth * x + offsetX}`,
       y: `${blockHeight * y + offsetY}`,
       style: color ? `fill: ${color}` : "fill: transparent",
+      ...(clearing ? { class: "clearing" } : {}),
     });
 
   /**
@@ -203,26 +510,58 @@ export class View {
   updateTextFields = (s: State) => {
     this.levelText.innerText = `${s.metrics.level}`;
     this.comboText.innerText = `${s.metrics.combo}`;
-    const clearActionText = document.createElement("p");
-    clearActionText.id = s.metrics.clearAction ? s.metrics.clearAction : "";
-    clearActionText.innerHTML = s.metrics.clearAction
-      ? s.metrics.clearAction
-      : "";
-    this.clearAction.replaceChildren(clearActionText);
+    // only replace the clear action on a new lock, so its animation can play
+    // again for the same clear action
+    const clearActionKey = `${s.metrics.lockCount}`;
+    if (this.clearAction.dataset.key !== clearActionKey) {
+      const clearActionText = document.createElement("p");
+      clearActionText.id = s.metrics.clearAction ? s.metrics.clearAction : "";
+      clearActionText.innerHTML = s.metrics.clearAction
+        ? this.formatClearAction(s.metrics.clearAction)
+        : "";
+      this.clearAction.dataset.key = clearActionKey;
+      this.clearAction.replaceChildren(clearActionText);
+    }
+    // shown for as long as the chain lasts, a zero-line spin does not break it
+    s.metrics.backToBack > 0
+      ? this.unhide(this.backToBack)
+      : this.hide(this.backToBack);
     this.scoreText.innerText = s.metrics.score.toString().padStart(8, "0");
     this.highScoreText.innerText = `${s.metrics.hiScore}`;
   };
 
+  /**
+   * Formats a clear action for display, e.g. T_SPIN_MINI_SINGLE -> T-SPIN MINI SINGLE
+   * @param clearAction clear action to format
+   * @returns formatted clear action
+   */
+  formatClearAction = (clearAction: string) =>
+    clearAction.replace("T_SPIN", "T-SPIN").replace(/_/g, " ");
+
   /**
    * Updates canvas view, including playfield and active tetromino
    * @param s game State
    */
   updateCanvas = (s: State) => {
+    const blockSize = this.getBlockSize(s);
+    this.svg.setAttribute("height", `${blockSize * s.config.boardHeight}`);
+    this.svg.setAttribute("width", `${blockSize * s.config.boardWidth}`);
+    this.svg.setAttribute(
+      "viewBox",
+      `0 0 ${blockSize * s.config.boardWidth} ${
+        blockSize * s.config.boardHeight
+      }`
+    );
+    this.svg.dataset.columns = `${s.config.boardWidth}`;
+    // the active tetromino is hidden during line clear and entry delays
+    const playField = isPieceActive(s)
+      ? s.playField.merge(s.active.tetromino).merge(s.active.ghost)
+      : s.playField;
     this.svg.replaceChildren(
-      ...s.playField
-        .merge(s.active.tetromino)
-        .merge(s.active.ghost)
-        .grid.cells.flatMap(
+      // hide the buffer zone above the visible playfield
+      ...playField.grid.cells
+        .slice(s.config.bufferHeight)
+        .flatMap(
           (row, row_index) =>
             row
               .map((cell, col_index) =>
@@ -232,9 +571,11 @@ export class View {
                       row_index,
                       0,
                       0,
-                      Block.WIDTH,
-                      Block.HEIGHT,
-                      cell.color
+                      blockSize,
+                      blockSize,
+                      cell.color,
+                      s.phase.type === "LINE_CLEAR" &&
+                        row.every((c) => c.filled)
                     )
                   : null
               )
@@ -244,35 +585,68 @@ export class View {
   };
 
   /**
-   * Updates preview view
+   * Gets the width of a cell of the board as shown on screen, which is
+   * smaller than its block size when the board is scaled down.
+   * @returns width of a cell in px
+   */
+  getCellWidth = () =>
+    this.svg.getBoundingClientRect().width /
+    Number(this.svg.dataset.columns ?? GridSettings.CANVAS_WIDTH);
+
+  /**
+   * Gets the size of a block, scaled so the visible playfield fits in the canvas.
+   * @param s game State
+   * @returns width and height of a block
+   */
+  getBlockSize = (s: State) =>
+    Math.min(
+      Viewport.CANVAS_WIDTH / s.config.boardWidth,
+      Viewport.CANVAS_HEIGHT / s.config.boardHeight
+    );
+
+  /**
+   * Updates preview view, stacking the next queue in slots from top to bottom
    * @param s game State
    */
   updatePreview = (s: State) => {
-    // trim to center
-    const trimmedNext = s.next.tetromino.trimmed();
+    this.preview.setAttribute(
+      "height",
+      `${Viewport.PREVIEW_SLOT_HEIGHT * s.next.queue.length}`
+    );
+    this.preview.setAttribute(
+      "viewBox",
+      `0 0 ${Viewport.PREVIEW_WIDTH} ${
+        Viewport.PREVIEW_SLOT_HEIGHT * s.next.queue.length
+      }`
+    );
     this.preview.replaceChildren(
-      ...trimmedNext.grid.cells.flatMap(
-        (row, row_index) =>
-          row
-            .map((cell, col_index) =>
-              cell.filled
-                ? this.createBlock(
-                    col_index,
-                    row_index,
-                    (Viewport.PREVIEW_WIDTH -
-                      trimmedNext.grid.cells[0].length * PreviewBlock.WIDTH) /
-                      2,
-                    (Viewport.PREVIEW_HEIGHT -
-                      trimmedNext.grid.cells.length * PreviewBlock.HEIGHT) /
-                      2,
-                    PreviewBlock.WIDTH,
-                    PreviewBlock.HEIGHT,
-                    cell.color
-                  )
-                : null
-            )
-            .filter((res) => res !== null) as SVGGraphicsElement[]
-      )
+      ...s.next.queue.flatMap((tetromino, slot) => {
+        // trim to center in its slot
+        const trimmedNext = tetromino.trimmed();
+        return trimmedNext.grid.cells.flatMap(
+          (row, row_index) =>
+            row
+              .map((cell, col_index) =>
+                cell.filled
+                  ? this.createBlock(
+                      col_index,
+                      row_index,
+                      (Viewport.PREVIEW_WIDTH -
+                        trimmedNext.grid.cells[0].length * PreviewBlock.WIDTH) /
+                        2,
+                      Viewport.PREVIEW_SLOT_HEIGHT * slot +
+                        (Viewport.PREVIEW_SLOT_HEIGHT -
+                          trimmedNext.grid.cells.length * PreviewBlock.HEIGHT) /
+                          2,
+                      PreviewBlock.WIDTH,
+                      PreviewBlock.HEIGHT,
+                      cell.color
+                    )
+                  : null
+              )
+              .filter((res) => res !== null) as SVGGraphicsElement[]
+        );
+      })
     );
   };
 
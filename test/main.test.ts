@@ -1,29 +1,107 @@
 /**
  * Tests!
  */
+import { readFileSync } from "fs";
+import { firstValueFrom, of } from "rxjs";
+import { take, toArray } from "rxjs/operators";
 import { assert, describe, expect, it } from "vitest";
 import { main } from "../src/main";
+import {
+  fromGamepad,
+  getActionInputs,
+  getPressedActions,
+} from "../src/gamepad";
+import { getEndGesture, getGestures } from "../src/touch";
 import {
   Tetromino,
   Grid,
   PlayField,
   Pos,
   TetrominoBagFactory,
+  TgmRandomizer,
+  SequenceRandomizer,
+  NrsRotationSystem,
+  ArsRotationSystem,
 } from "../src/classes";
-import { getOffset, getTetromino, makeGrid } from "../src/utils";
-import { State, TetrominoType } from "../src/types";
 import {
+  bindKey,
+  clearKeys,
+  formatKeyBindings,
+  getConflict,
+  loadButtonBindings,
+  loadHandling,
+  loadKeyBindings,
+  parsePuzzle,
+  saveButtonBindings,
+  saveHandling,
+  saveKeyBindings,
+  setHandlingValue,
+  getOffset,
+  getPieceType,
+  getPieceTypes,
+  getRandomizer,
+  getRotationSystem,
+  getSpawnPos,
+  getTetromino,
+  getUrlConfig,
+  makeGrid,
+  peek,
+  pipe,
+} from "../src/utils";
+import {
+  Effect,
+  GameConfig,
+  GamepadState,
+  TouchGesture,
+  Handling,
+  Nullable,
+  Puzzle,
+  Randomizer,
+  RandomizerType,
+  RotateDirection,
+  RotationSystemType,
+  State,
+  TetrominoType,
+} from "../src/types";
+import {
+  Edit,
+  EditBrush,
+  EditHold,
+  EditQueue,
+  Garbage,
   HardDrop,
+  HeldInput,
+  InsertGarbage,
   Hold,
   Lock,
+  Paint,
+  PlayEdited,
   Restart,
   Rotate,
   SoftDrop,
   Tick,
   Translate,
+  colliding,
+  exportPuzzle,
+  getShiftDirection,
   getFreshState,
+  reduceState,
+  resetLastRotation,
+  updateGhost,
 } from "../src/state";
-import { GridSettings } from "../src/constants";
+import {
+  AttackTable,
+  Colors,
+  DefaultGameConfig,
+  DefaultButtonBindings,
+  DefaultHandling,
+  DefaultKeyBindings,
+  GridSettings,
+  PieceSets,
+  ScoringRules,
+  Settings,
+  Tetrominos,
+} from "../src/constants";
 
 const filledCells = (grid: Grid) =>
   grid.cells.map((row) => row.map((cell) => cell.filled));
@@ -336,6 +414,15 @@ describe("utils", () => {
       ],
     ]);
   });
+  it("peek()", () => {
+    const sequence = new TetrominoBagFactory(0).next();
+    expect(peek(sequence, 3)).toEqual([
+      sequence.value,
+      sequence.next().value,
+      sequence.next().next().value,
+    ]);
+    expect(peek(sequence, 0)).toEqual([]);
+  });
   describe("TetrominoBagFactory", () => {
     it("is defined", () => {
       assert.isDefined(TetrominoBagFactory);
@@ -386,9 +473,150 @@ describe("utils", () => {
       expect(new Set(bag).size).toEqual(TetrominoBagFactory.BAG_ITEMS.length);
     });
   });
+
+  describe("Randomizer", () => {
+    /**
+     * Takes the first n values of a randomizer's sequence.
+     */
+    const take = (randomizer: Randomizer, n: number) => {
+      const values: TetrominoType[] = [];
+      let next = randomizer.next();
+      for (let i = 0; i < n; i++) {
+        values.push(next.value);
+        next = next.next();
+      }
+      return values;
+    };
+    const types: RandomizerType[] = [
+      "BAG_7",
+      "BAG_14",
+      "MEMORYLESS",
+      "NES",
+      "TGM",
+    ];
+
+    it("same seed, same sequence", () => {
+      types.forEach((type) =>
+        expect(take(getRandomizer(type, 42), 50)).toEqual(
+          take(getRandomizer(type, 42), 50)
+        )
+      );
+    });
+    it("only bag items", () => {
+      types.forEach((type) =>
+        take(getRandomizer(type, 7), 50).forEach((value) =>
+          expect(TetrominoBagFactory.BAG_ITEMS).toContain(value)
+        )
+      );
+    });
+    it("14-bag has every tetromino twice", () => {
+      const bag = take(new TetrominoBagFactory(3, 2), 14);
+      TetrominoBagFactory.BAG_ITEMS.forEach((item) =>
+        expect(bag.filter((value) => value === item).length).toEqual(2)
+      );
+    });
+    it("TGM never starts with S, Z or O", () => {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(["S", "Z", "O"]).not.toContain(
+          new TgmRandomizer(seed).next().value
+        );
+      }
+    });
+    it("TGM history has the last 4 tetrominoes", () => {
+      const sequence = new TgmRandomizer(5).next();
+      const values = take(new TgmRandomizer(5), 4);
+      expect(sequence.next().next().next().array).toEqual(values.reverse());
+    });
+  });
 });
 
 describe("state", () => {
+  describe("getFreshState", () => {
+    it("next queue length is clamped", () => {
+      expect(getFreshState(0).next.queue.length).toEqual(5);
+      expect(
+        getFreshState(0, { nextQueueLength: 3 }).next.queue.length
+      ).toEqual(3);
+      expect(
+        getFreshState(0, { nextQueueLength: 0 }).next.queue.length
+      ).toEqual(1);
+      expect(
+        getFreshState(0, { nextQueueLength: 10 }).next.queue.length
+      ).toEqual(7);
+    });
+    it("uses default config", () => {
+      expect(getFreshState(0).config).toEqual(DefaultGameConfig);
+    });
+    it("board size from config", () => {
+      const s = getFreshState(0, { boardWidth: 6, boardHeight: 12 });
+      expect(s.playField.width).toEqual(6);
+      expect(s.playField.height).toEqual(12 + s.config.bufferHeight);
+    });
+    it("level from config", () => {
+      const state = getFreshState(0, { levelStart: 3, linesPerLevel: 2 });
+      expect(state.metrics.level).toEqual(3);
+      expect(
+        Lock.updateLevel({
+          ...state,
+          metrics: { ...state.metrics, rowsCleared: 5 },
+        }).metrics.level
+      ).toEqual(5);
+    });
+    it("scoring from config", () => {
+      const state = getFreshState(0, {
+        scoringRules: { ...ScoringRules, HARD_DROP: 10 },
+      });
+      expect(new HardDrop().apply(state).metrics.score).toEqual(10);
+    });
+  });
+
+  describe("Board dimensions", () => {
+    const filledColumns = (tetromino: Tetromino) =>
+      tetromino.grid.cells[0]
+        .map((_, x) => x)
+        .filter((x) => tetromino.grid.cells.some((row) => row[x].filled))
+        .map((x) => x + tetromino.pos.x);
+
+    it("clamps the board dimensions", () => {
+      const state = getFreshState(0, { boardWidth: 2, boardHeight: 100 });
+      expect(state.config.boardWidth).toEqual(Settings.BOARD_WIDTH_MIN);
+      expect(state.config.boardHeight).toEqual(Settings.BOARD_HEIGHT_MAX);
+      expect(state.playField.width).toEqual(Settings.BOARD_WIDTH_MIN);
+      expect(state.playField.height).toEqual(
+        Settings.BOARD_HEIGHT_MAX + GridSettings.BUFFER_HEIGHT
+      );
+    });
+    it("reads the board dimensions from the URL, clamped", () => {
+      const state = getFreshState(
+        0,
+        getUrlConfig(new URLSearchParams("?width=4&height=100"))
+      );
+      expect(state.config.boardWidth).toEqual(4);
+      expect(state.config.boardHeight).toEqual(Settings.BOARD_HEIGHT_MAX);
+      expect(state.playField.width).toEqual(4);
+    });
+    it("spawns tetrominoes centered in the width", () => {
+      const narrow = { ...DefaultGameConfig, boardWidth: 4 };
+      expect(
+        filledColumns(getTetromino(getSpawnPos(narrow, "I"), "I"))
+      ).toEqual([0, 1, 2, 3]);
+      expect(
+        filledColumns(getTetromino(getSpawnPos(DefaultGameConfig, "I"), "I"))
+      ).toEqual([3, 4, 5, 6]);
+      expect(
+        filledColumns(getTetromino(getSpawnPos(DefaultGameConfig, "T"), "T"))
+      ).toEqual([3, 4, 5]);
+    });
+    it("keeps tetrominoes inside a narrow board", () => {
+      const state = getFreshState(0, { boardWidth: 5 });
+      const s = [...Array(5)].reduce(
+        (acc: State) => new Translate(new Pos(1, 0)).apply(acc),
+        state
+      );
+      expect(Math.max(...filledColumns(s.active.tetromino))).toEqual(4);
+    });
+  });
+
   describe("Hold", () => {
     it("is defined", () => {
       assert.isDefined(Hold);
@@ -401,6 +629,12 @@ describe("state", () => {
       const state = getFreshState(0);
       expect(Hold.holdNext(state).hold.tetromino).toBeTruthy();
     });
+    it("holdNext() pulls from the next queue", () => {
+      const state = getFreshState(0);
+      const s = Hold.holdNext(state);
+      expect(s.active.tetromino.type).toEqual(state.next.queue[0].type);
+      expect(s.next.queue[0].type).toEqual(state.next.queue[1].type);
+    });
     it("holdActive()", () => {
       const state = getFreshState(0);
       const holdTetromino = getTetromino(new Pos(0, 0), "O");
@@ -506,6 +740,100 @@ describe("state", () => {
           prevTetromino
         );
       });
+      it("lock out above the visible playField", () => {
+        const state = getFreshState(0);
+        const s = new Lock().apply({
+          ...state,
+          active: {
+            ...state.active,
+            tetromino: state.active.tetromino.translateTo(new Pos(3, 0)),
+          },
+        });
+        expect(s.gameEnd).toEqual(true);
+        expect(s.gameEndReason).toEqual("LOCK_OUT");
+      });
+      it("block out when next tetromino overlaps", () => {
+        const state = getFreshState(0);
+        const s = new HardDrop().apply({
+          ...state,
+          playField: state.playField.merge(
+            new Tetromino(
+              new Pos(0, GridSettings.BUFFER_HEIGHT - 1),
+              makeGrid(2)(GridSettings.CANVAS_WIDTH - 1)(1)(),
+              "I",
+              0
+            )
+          ),
+        });
+        expect(s.gameEnd).toEqual(true);
+        expect(s.gameEndReason).toEqual("BLOCK_OUT");
+      });
+      it("advance next queue", () => {
+        const state = getFreshState(0);
+        const s = new HardDrop().apply(state);
+        expect(s.active.tetromino.type).toEqual(state.next.queue[0].type);
+        expect(s.next.queue.map((t) => t.type)).toEqual([
+          ...state.next.queue.slice(1).map((t) => t.type),
+          s.next.queue[s.next.queue.length - 1].type,
+        ]);
+        expect(s.next.queue.length).toEqual(state.next.queue.length);
+      });
+      it("initial rotation with the last pressed rotate action", () => {
+        const state = getFreshState(0);
+        expect(
+          new HardDrop().apply({ ...state, heldActions: ["ROTATE_CW"] }).active
+            .tetromino.rotationState
+        ).toEqual(1);
+        expect(
+          new HardDrop().apply({
+            ...state,
+            heldActions: ["ROTATE_CW", "ROTATE_CCW"],
+          }).active.tetromino.rotationState
+        ).toEqual(3);
+      });
+      it("initial rotation keeps I and O where a rotation puts them", () => {
+        const state = getFreshState(0);
+        const spawned = (type: TetrominoType) =>
+          updateGhost({
+            ...state,
+            active: {
+              ...state.active,
+              tetromino: getTetromino(getSpawnPos(state.config, type), type),
+            },
+          });
+        const blocks = (tetromino: Tetromino) =>
+          tetromino.grid.cells.flatMap((row, y) =>
+            row.flatMap((cell, x) =>
+              cell.filled ? [[tetromino.pos.x + x, tetromino.pos.y + y]] : []
+            )
+          );
+        (["O", "I"] as const).forEach((type) => {
+          const irs = Lock.initialRotation({
+            ...spawned(type),
+            heldActions: ["ROTATE_CW"],
+          }).active.tetromino;
+          expect(irs.rotationState).toEqual(1);
+          expect(blocks(irs)).toEqual(
+            blocks(new Rotate(1).apply(spawned(type)).active.tetromino)
+          );
+        });
+        const O = spawned("O").active.tetromino;
+        expect(
+          blocks(
+            Lock.initialRotation({
+              ...spawned("O"),
+              heldActions: ["ROTATE_CW"],
+            }).active.tetromino
+          )
+        ).toEqual(blocks(O));
+      });
+      it("initial hold", () => {
+        const state = getFreshState(0);
+        const s = new HardDrop().apply({ ...state, heldActions: ["HOLD"] });
+        expect(s.hold.tetromino?.type).toEqual(state.next.queue[0].type);
+        expect(s.active.tetromino.type).toEqual(state.next.queue[1].type);
+        expect(s.hold.used).toEqual(true);
+      });
     });
     it("clearFilledRows", () => {
       const state = getFreshState(0);
@@ -551,6 +879,186 @@ describe("state", () => {
     });
   });
 
+  describe("Back-to-back", () => {
+    /**
+     * State with the given filled rows in a 3-wide playField, below a
+     * partially filled row.
+     */
+    const clearState = (
+      rows: number,
+      prevClearAction: string | null
+    ): State => {
+      const state = getFreshState(0);
+      return {
+        ...state,
+        playField: new PlayField(
+          new Pos(0, 0),
+          new Grid([
+            [
+              { filled: 1, color: null },
+              { filled: 0, color: null },
+              { filled: 0, color: null },
+            ],
+            ...makeGrid(rows)(3)(1)().cells,
+          ])
+        ),
+        metrics: { ...state.metrics, prevClearAction: prevClearAction },
+      };
+    };
+
+    it("tetris after tetris is multiplied", () => {
+      const s = Lock.clearFilledRows(clearState(4, "TETRIS"));
+      expect(s.metrics.backToBack).toEqual(1);
+      expect(s.metrics.prevClearAction).toEqual("TETRIS");
+      expect(s.metrics.score).toEqual(
+        ScoringRules.TETRIS * ScoringRules.BACK_TO_BACK_MULTIPLIER +
+          ScoringRules.COMBO
+      );
+    });
+    it("tetris after single is not multiplied", () => {
+      const s = Lock.clearFilledRows(clearState(4, "SINGLE"));
+      expect(s.metrics.backToBack).toEqual(0);
+      expect(s.metrics.score).toEqual(ScoringRules.TETRIS + ScoringRules.COMBO);
+    });
+    it("non-difficult clear breaks the chain", () => {
+      const state = clearState(1, "TETRIS");
+      const s = Lock.clearFilledRows({
+        ...state,
+        metrics: { ...state.metrics, backToBack: 3 },
+      });
+      expect(s.metrics.backToBack).toEqual(0);
+      expect(s.metrics.prevClearAction).toEqual("SINGLE");
+    });
+  });
+
+  describe("Perfect clear", () => {
+    /**
+     * State with the given filled rows in a 3-wide playField.
+     */
+    const clearState = (rows: number, backToBack: number): State => {
+      const state = getFreshState(0);
+      return {
+        ...state,
+        playField: new PlayField(new Pos(0, 0), makeGrid(rows)(3)(1)()),
+        metrics: {
+          ...state.metrics,
+          prevClearAction: backToBack > 0 ? "TETRIS" : null,
+          backToBack: backToBack,
+        },
+      };
+    };
+
+    it("perfect clear double", () => {
+      const s = Lock.clearFilledRows(clearState(2, 0));
+      expect(s.metrics.clearAction).toEqual("PERFECT_CLEAR_DOUBLE");
+      expect(s.metrics.perfectClears).toEqual(1);
+      expect(s.metrics.score).toEqual(
+        ScoringRules.DOUBLE +
+          ScoringRules.COMBO +
+          ScoringRules.PERFECT_CLEAR_DOUBLE
+      );
+    });
+    it("back-to-back tetris perfect clear", () => {
+      const s = Lock.clearFilledRows(clearState(4, 1));
+      expect(s.metrics.clearAction).toEqual("PERFECT_CLEAR_B2B_TETRIS");
+      expect(s.metrics.prevClearAction).toEqual("TETRIS");
+    });
+    it("no perfect clear if blocks remain", () => {
+      const state = clearState(1, 0);
+      const s = Lock.clearFilledRows({
+        ...state,
+        playField: new PlayField(
+          new Pos(0, 0),
+          new Grid([
+            [
+              { filled: 1, color: null },
+              { filled: 0, color: null },
+              { filled: 0, color: null },
+            ],
+            ...state.playField.grid.cells,
+          ])
+        ),
+      });
+      expect(s.metrics.clearAction).toEqual("SINGLE");
+      expect(s.metrics.perfectClears).toEqual(0);
+    });
+  });
+
+  describe("T-spin", () => {
+    /**
+     * State with a T pointing down into a 5x3 playField.
+     */
+    const tSpinState = (
+      rows: (0 | 1)[][],
+      kickIndex: number | null,
+      rotateDirection: RotateDirection = 1
+    ): State => {
+      const state = getFreshState(0);
+      return {
+        ...state,
+        playField: new PlayField(
+          new Pos(0, 0),
+          new Grid(
+            rows.map((row) => row.map((f) => ({ filled: f, color: null })))
+          )
+        ),
+        active: {
+          ...state.active,
+          tetromino: getTetromino(new Pos(1, 0), "T").rotate(1).rotate(1),
+          lastRotation:
+            kickIndex === null
+              ? null
+              : { rotateDirection: rotateDirection, kickIndex: kickIndex },
+        },
+      };
+    };
+    const tSpinDouble: (0 | 1)[][] = [
+      [0, 1, 0, 0, 0],
+      [1, 0, 0, 0, 1],
+      [1, 1, 0, 1, 1],
+    ];
+    const tSpinMini: (0 | 1)[][] = [
+      [0, 1, 0, 1, 0],
+      [0, 0, 0, 0, 1],
+      [1, 1, 0, 0, 1],
+    ];
+
+    it("full T-spin", () => {
+      expect(Lock.getSpin(tSpinState(tSpinDouble, 0))).toEqual("T_SPIN");
+    });
+    it("no T-spin if last move was not a rotation", () => {
+      expect(Lock.getSpin(tSpinState(tSpinDouble, null))).toBeNull();
+    });
+    it("T-spin mini", () => {
+      expect(Lock.getSpin(tSpinState(tSpinMini, 0))).toEqual("T_SPIN_MINI");
+    });
+    it("last kick upgrades T-spin mini", () => {
+      expect(Lock.getSpin(tSpinState(tSpinMini, 4))).toEqual("T_SPIN");
+    });
+    it("180 kick does not upgrade T-spin mini", () => {
+      expect(Lock.getSpin(tSpinState(tSpinMini, 4, 2))).toEqual("T_SPIN_MINI");
+    });
+    it("T-spin double is scored", () => {
+      const s = Lock.clearFilledRows(Lock.merge(tSpinState(tSpinDouble, 0)));
+      expect(s.metrics.clearAction).toEqual("T_SPIN_DOUBLE");
+      expect(s.metrics.rowsCleared).toEqual(2);
+      expect(s.metrics.score).toEqual(
+        ScoringRules.T_SPIN_DOUBLE + ScoringRules.COMBO
+      );
+    });
+    it("zero-line T-spin is scored", () => {
+      const s = Lock.clearFilledRows(Lock.merge(tSpinState(tSpinMini, 0)));
+      expect(s.metrics.clearAction).toEqual("T_SPIN_MINI");
+      expect(s.metrics.rowsCleared).toEqual(0);
+      expect(s.metrics.score).toEqual(ScoringRules.T_SPIN_MINI);
+    });
+    it("a lock that scores nothing keeps the last clear action", () => {
+      const s = Lock.clearFilledRows(Lock.merge(tSpinState(tSpinMini, 0)));
+      const next = Lock.scoreFilledRows(resetLastRotation(s));
+      expect(next.metrics.clearAction).toEqual("T_SPIN_MINI");
+    });
+  });
+
   describe("Rotate", () => {
     it("is defined", () => {
       assert.isDefined(Rotate);
@@ -578,6 +1086,309 @@ describe("state", () => {
             .rotationState
         ).toEqual(prevRotationState);
       });
+      it("rotate 180", () => {
+        const state = getFreshState(0);
+        const rotated = new Rotate(2).apply(state).active.tetromino;
+        const twice = new Rotate(1).apply(new Rotate(1).apply(state)).active
+          .tetromino;
+        expect(rotated.rotationState).toEqual(2);
+        expect(filledCells(rotated.grid)).toEqual(filledCells(twice.grid));
+        expect([rotated.pos.x, rotated.pos.y]).toEqual([
+          twice.pos.x,
+          twice.pos.y,
+        ]);
+      });
+      it("rotate 180 kicks off the wall", () => {
+        const state = getFreshState(0);
+        // vertical I against the right wall
+        const I = getTetromino(new Pos(8, 25), "I").rotate(-1);
+        const s = new Rotate(2).apply({
+          ...state,
+          active: { ...state.active, tetromino: I },
+        });
+        expect(s.active.tetromino.rotationState).toEqual(1);
+        expect(s.active.lastRotation?.kickIndex).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe("HeldInput", () => {
+    it("tracks held actions in the order they were pressed", () => {
+      const state = [
+        new HeldInput("HOLD", true),
+        new HeldInput("ROTATE_CW", true),
+        new HeldInput("HOLD", false),
+        new HeldInput("ROTATE_180", true),
+      ].reduce((s, effect) => effect.apply(s), getFreshState(0));
+      expect(state.heldActions).toEqual(["ROTATE_CW", "ROTATE_180"]);
+    });
+  });
+
+  describe("Rotation systems", () => {
+    /**
+     * State of a rotation system with the active tetromino and filled cells.
+     */
+    const rotationState = (
+      rotationSystem: RotationSystemType,
+      tetromino: Tetromino,
+      filled: ReadonlyArray<Pos> = []
+    ): State => {
+      const state = getFreshState(0, { rotationSystem: rotationSystem });
+      return {
+        ...state,
+        playField: filled.reduce(
+          (playField, pos) =>
+            playField.merge(
+              new Tetromino(
+                pos,
+                new Grid([[{ filled: 1, color: null }]]),
+                "O",
+                0
+              )
+            ),
+          state.playField
+        ),
+        active: { ...state.active, tetromino: tetromino },
+      };
+    };
+
+    it("NRS has right-handed two-state tetrominoes", () => {
+      const NRS = getRotationSystem("NRS");
+      expect(filledCells(NRS.getGrid("S", 1))).toEqual([
+        [0, 1, 0],
+        [0, 1, 1],
+        [0, 0, 1],
+      ]);
+      expect(filledCells(NRS.getGrid("S", 2))).toEqual(
+        filledCells(NRS.getGrid("S", 0))
+      );
+    });
+    it("ARS keeps the upside down state bottom-aligned", () => {
+      expect(filledCells(getRotationSystem("ARS").getGrid("T", 2))).toEqual([
+        [0, 0, 0],
+        [0, 1, 0],
+        [1, 1, 1],
+      ]);
+    });
+    it("spawns with the shapes of the configured system", () => {
+      const state = getFreshState(0, { rotationSystem: "ARS" });
+      const { type } = state.active.tetromino;
+      expect(filledCells(state.active.tetromino.grid)).toEqual(
+        filledCells(getRotationSystem("ARS").getGrid(type, 0))
+      );
+    });
+    it("NRS does not kick", () => {
+      // vertical I against the left wall
+      const I = new NrsRotationSystem()
+        .rotate(getTetromino(new Pos(0, 25), "I", "NRS"), 1)
+        .translate(new Pos(-2, 0));
+      const s = new Rotate(1).apply(rotationState("NRS", I));
+      expect(s.active.tetromino.rotationState).toEqual(1);
+    });
+    it("ARS kicks off the wall", () => {
+      // T pointing left against the right wall
+      const T = new ArsRotationSystem().rotate(
+        getTetromino(new Pos(8, 25), "T", "ARS"),
+        1
+      );
+      const s = new Rotate(1).apply(rotationState("ARS", T));
+      expect(s.active.tetromino.rotationState).toEqual(2);
+      expect(s.active.tetromino.pos.x).toEqual(7);
+    });
+    it("ARS does not kick when the center column is blocked", () => {
+      const T = getTetromino(new Pos(3, 25), "T", "ARS");
+      const s = new Rotate(1).apply(rotationState("ARS", T, [new Pos(4, 25)]));
+      expect(s.active.tetromino.rotationState).toEqual(0);
+    });
+  });
+
+  describe("Game modes", () => {
+    const withRows = (state: State, rowsCleared: number): State => ({
+      ...state,
+      metrics: { ...state.metrics, rowsCleared: rowsCleared },
+    });
+
+    it("sprint completes at 40 lines", () => {
+      const state = getFreshState(0, { mode: "SPRINT" });
+      expect(reduceState(withRows(state, 39), new Tick(10)).gameEnd).toEqual(
+        false
+      );
+      const s = reduceState(withRows(state, 40), new Tick(5000));
+      expect(s.gameEnd).toEqual(true);
+      expect(s.gameEndReason).toEqual("COMPLETED");
+      expect(s.metrics.endTime).toEqual(5000);
+    });
+    it("ultra completes after 2 minutes", () => {
+      const state = getFreshState(0, { mode: "ULTRA" });
+      expect(reduceState(state, new Tick(60000)).gameEnd).toEqual(false);
+      const s = reduceState(state, new Tick(Settings.ULTRA_TIME));
+      expect(s.gameEnd).toEqual(true);
+      expect(s.gameEndReason).toEqual("COMPLETED");
+    });
+    it("marathon completes at the line target", () => {
+      const state = getFreshState(0, { marathonLineTarget: 10 });
+      expect(
+        reduceState(withRows(state, 10), new Tick(10)).gameEndReason
+      ).toEqual("COMPLETED");
+    });
+    it("marathon is endless by default", () => {
+      const state = getFreshState(0);
+      expect(reduceState(withRows(state, 1000), new Tick(10)).gameEnd).toEqual(
+        false
+      );
+    });
+    it("restarts in the same mode", () => {
+      const state = getFreshState(0, { mode: "SPRINT" });
+      const ended = reduceState(withRows(state, 40), new Tick(10));
+      expect(new Restart().apply(ended).config.mode).toEqual("SPRINT");
+    });
+    it("reads the mode and line target from the URL", () => {
+      expect(
+        getUrlConfig(new URLSearchParams("?mode=MARATHON&lines=150"))
+      ).toEqual({ mode: "MARATHON", marathonLineTarget: 150 });
+      expect(getUrlConfig(new URLSearchParams("?mode=ZEN&lines=-1"))).toEqual(
+        {}
+      );
+      expect(getUrlConfig(new URLSearchParams("?mode=toString"))).toEqual({});
+      expect(getUrlConfig(new URLSearchParams("?mode=constructor"))).toEqual(
+        {}
+      );
+    });
+  });
+
+  describe("Garbage", () => {
+    it("inserts garbage rows with a hole", () => {
+      const playField = new PlayField(
+        new Pos(0, 0),
+        new Grid([
+          [
+            { filled: 0, color: null },
+            { filled: 0, color: null },
+            { filled: 0, color: null },
+          ],
+          [
+            { filled: 0, color: null },
+            { filled: 1, color: null },
+            { filled: 0, color: null },
+          ],
+          [
+            { filled: 1, color: null },
+            { filled: 1, color: null },
+            { filled: 0, color: null },
+          ],
+        ])
+      ).insertGarbage(1, 0);
+      expect(filledCells(playField.grid)).toEqual([
+        [0, 1, 0],
+        [1, 1, 0],
+        [0, 1, 1],
+      ]);
+    });
+    it("inserts pending garbage when locking without clears", () => {
+      const state = new Garbage(2, 3).apply(getFreshState(0));
+      expect(state.pendingGarbage).toEqual([{ rows: 2, hole: 3 }]);
+      const s = new HardDrop().apply(state);
+      const bottom = filledCells(s.playField.grid).slice(-2);
+      expect(bottom).toEqual([
+        [1, 1, 1, 0, 1, 1, 1, 1, 1, 1],
+        [1, 1, 1, 0, 1, 1, 1, 1, 1, 1],
+      ]);
+      expect(s.pendingGarbage).toEqual([]);
+    });
+    it("cancels pending garbage oldest first", () => {
+      expect(
+        Garbage.cancel(3, [
+          { rows: 2, hole: 0 },
+          { rows: 4, hole: 1 },
+        ])
+      ).toEqual([0, [{ rows: 3, hole: 1 }]]);
+      expect(Garbage.cancel(5, [{ rows: 2, hole: 0 }])).toEqual([3, []]);
+    });
+    it("clears cancel pending garbage and send the rest", () => {
+      const state = getFreshState(0);
+      const s = Garbage.exchange({
+        ...state,
+        playField: state.playField.merge(
+          new Tetromino(
+            new Pos(0, state.playField.height - 1),
+            makeGrid(1)(10)(1)(),
+            "I",
+            0
+          )
+        ),
+        pendingGarbage: [{ rows: 1, hole: 0 }],
+        metrics: { ...state.metrics, rowsCleared: 4, clearAction: "TETRIS" },
+      });
+      expect(s.pendingGarbage).toEqual([]);
+      expect(s.metrics.garbageSent).toEqual(AttackTable.TETRIS - 1);
+    });
+    it("tops out when blocks are pushed above the playField", () => {
+      const state = getFreshState(0);
+      const s = new InsertGarbage(1, 0).apply({
+        ...state,
+        playField: state.playField.merge(
+          new Tetromino(new Pos(9, 0), makeGrid(1)(1)(1)(), "O", 0)
+        ),
+      });
+      expect(s.gameEnd).toEqual(true);
+      expect(s.gameEndReason).toEqual("TOP_OUT");
+    });
+  });
+
+  describe("Cheese race", () => {
+    const holes = (state: State) =>
+      filledCells(state.playField.grid)
+        .slice(-state.cheese.rows)
+        .map((row) => row.indexOf(0));
+
+    it("starts with the visible cheese rows", () => {
+      const state = getFreshState(0, { mode: "CHEESE", cheeseRows: 12 });
+      const rows = filledCells(state.playField.grid).slice(-10);
+      expect(state.cheese.rows).toEqual(10);
+      expect(state.cheese.remaining).toEqual(2);
+      rows.forEach((row) => expect(row.filter((f) => !f).length).toEqual(1));
+    });
+    it("keeps the same hole without messiness", () => {
+      const state = getFreshState(0, { mode: "CHEESE", cheeseMessiness: 0 });
+      expect(new Set(holes(state)).size).toEqual(1);
+    });
+    it("moves the hole every row at full messiness", () => {
+      const state = getFreshState(0, { mode: "CHEESE", cheeseMessiness: 1 });
+      holes(state)
+        .slice(1)
+        .forEach((hole, i) => expect(hole).not.toEqual(holes(state)[i]));
+    });
+    it("reads the cheese rows and messiness from the URL", () => {
+      expect(
+        getUrlConfig(
+          new URLSearchParams("?mode=CHEESE&cheese=100&messiness=0.3")
+        )
+      ).toEqual({ mode: "CHEESE", cheeseRows: 100, cheeseMessiness: 0.3 });
+      expect(
+        getUrlConfig(new URLSearchParams("?cheese=0&messiness=2"))
+      ).toEqual({});
+    });
+    it("completes when all cheese rows are dug out", () => {
+      const state = getFreshState(0, { mode: "CHEESE", cheeseRows: 1 });
+      const [hole] = holes(state);
+      const s = reduceState(
+        updateGhost({
+          ...state,
+          active: {
+            ...state.active,
+            tetromino: new Tetromino(
+              new Pos(hole, GridSettings.BUFFER_HEIGHT),
+              makeGrid(1)(1)(1)(),
+              "O",
+              0
+            ),
+          },
+        }),
+        new HardDrop()
+      );
+      expect(s.cheese.rows).toEqual(0);
+      expect(s.gameEndReason).toEqual("COMPLETED");
+      expect(s.metrics.lockCount).toEqual(1);
     });
   });
 
@@ -621,6 +1432,724 @@ describe("state", () => {
           prevTime
         );
       });
+      it("drops multiple rows per tick", () => {
+        // 6 frames at 60 fps
+        const state = getFreshState(0, { gravityTable: { 1: 1 } });
+        expect(
+          new Tick(100).apply(state).active.tetromino.pos.y -
+            state.active.tetromino.pos.y
+        ).toEqual(6);
+      });
+      it("drops fractional gravity over several ticks", () => {
+        const state = getFreshState(0, { gravityTable: { 1: 1 / 30 } });
+        const y = state.active.tetromino.pos.y;
+        expect(new Tick(400).apply(state).active.tetromino.pos.y).toEqual(y);
+        expect(
+          new Tick(1000).apply(new Tick(400).apply(state)).active.tetromino.pos
+            .y
+        ).toEqual(y + 2);
+      });
+      it("drops to the floor at 20G", () => {
+        const state = getFreshState(0, { gravityTable: { 1: 20 } });
+        const s = new Tick(10).apply(state);
+        expect(s.active.tetromino.pos.y).toEqual(state.active.ghost.pos.y);
+      });
+      it("spawns on the floor at 20G", () => {
+        const state = getFreshState(0, { gravityTable: { 1: 20 } });
+        const s = new HardDrop().apply(state);
+        expect(s.active.tetromino.pos.y).toEqual(s.active.ghost.pos.y);
+        expect(s.active.tetromino.pos.y).toBeGreaterThan(
+          state.active.tetromino.pos.y
+        );
+      });
+    });
+  });
+
+  describe("Delays", () => {
+    const bottomRow = (state: State) =>
+      filledCells(state.playField.grid).slice(-1)[0];
+
+    it("enters the locking phase on the ground", () => {
+      const state = getFreshState(0, { gravityTable: { 1: 20 } });
+      expect(state.phase.type).toEqual("FALLING");
+      expect(new Tick(10).apply(state).phase.type).toEqual("LOCKING");
+    });
+    it("keeps filled rows until the line clear delay passes", () => {
+      const state = getFreshState(0, { lineClearDelay: 300 });
+      const s = new HardDrop().apply(
+        updateGhost({
+          ...state,
+          playField: state.playField.merge(
+            new Tetromino(
+              new Pos(0, state.playField.height - 1),
+              makeGrid(1)(10)(1)(),
+              "I",
+              0
+            )
+          ),
+        })
+      );
+      expect(s.phase.type).toEqual("LINE_CLEAR");
+      expect(s.metrics.rowsCleared).toEqual(1);
+      expect(bottomRow(s)).toEqual(Array(10).fill(1));
+      expect(bottomRow(new Tick(100).apply(s))).toEqual(Array(10).fill(1));
+      const cleared = new Tick(300).apply(s);
+      expect(cleared.phase.type).toEqual("FALLING");
+      expect(bottomRow(cleared)).not.toEqual(Array(10).fill(1));
+    });
+    it("spawns the next tetromino after the entry delay", () => {
+      const s = new HardDrop().apply(getFreshState(0, { entryDelay: 200 }));
+      expect(s.phase.type).toEqual("ENTRY");
+      expect(new Tick(100).apply(s).phase.type).toEqual("ENTRY");
+      const spawned = new Tick(200).apply(s);
+      expect(spawned.phase.type).toEqual("FALLING");
+      expect(spawned.active.tetromino.type).toEqual(s.next.queue[0].type);
+    });
+    it("buffers inputs during the entry delay", () => {
+      const s = new HardDrop().apply(getFreshState(0, { entryDelay: 200 }));
+      expect(new Translate(new Pos(-1, 0)).apply(s)).toBe(s);
+      const buffered = pipe(
+        s,
+        new Rotate(1).apply,
+        new HardDrop().apply,
+        new Hold().apply
+      );
+      expect(buffered.active).toBe(s.active);
+      expect(buffered.bufferedActions).toEqual([
+        "ROTATE_CW",
+        "HARD_DROP",
+        "HOLD",
+      ]);
+    });
+    it("replays a rotation released during the entry delay on spawn", () => {
+      const s = pipe(
+        new HardDrop().apply(getFreshState(0, { entryDelay: 200 })),
+        new HeldInput("ROTATE_CW", true).apply,
+        new Rotate(1).apply,
+        new HeldInput("ROTATE_CW", false).apply
+      );
+      const spawned = new Tick(200).apply(s);
+      expect(spawned.phase.type).toEqual("FALLING");
+      expect(spawned.active.tetromino.rotationState).toEqual(1);
+      expect(spawned.bufferedActions).toEqual([]);
+    });
+    it("does not replay a rotation still held on spawn twice", () => {
+      const s = pipe(
+        new HardDrop().apply(getFreshState(0, { entryDelay: 200 })),
+        new HeldInput("ROTATE_CW", true).apply,
+        new Rotate(1).apply
+      );
+      expect(new Tick(200).apply(s).active.tetromino.rotationState).toEqual(1);
+    });
+  });
+
+  describe("Lock reset policies", () => {
+    const landed = (config: Partial<GameConfig>) =>
+      new Tick(10).apply(
+        getFreshState(0, {
+          gravityTable: { 1: 20 },
+          lockDelayResetCount: 2,
+          ...config,
+        })
+      );
+    // alternate left and right to stay clear of the walls
+    const moveAt = (time: number) => (s: State) =>
+      new Translate(new Pos(time % 200 === 0 ? -1 : 1, 0)).apply(
+        new Tick(time).apply(s)
+      );
+
+    it("move reset stops resetting after the reset count", () => {
+      const s = pipe(landed({}), moveAt(100), moveAt(200), moveAt(300));
+      expect(s.active.lock.resettedCount).toEqual(2);
+      expect(s.active.lock.timerStart).toEqual(200);
+    });
+    it("move reset is restored on a new lowest row", () => {
+      const state = pipe(landed({}), moveAt(100), moveAt(200));
+      const s = moveAt(300)({
+        ...state,
+        active: {
+          ...state.active,
+          lock: {
+            ...state.active.lock,
+            lowestRow: state.active.lock.lowestRow - 1,
+          },
+        },
+      });
+      expect(s.active.lock.resettedCount).toEqual(0);
+      expect(s.active.lock.timerStart).toEqual(300);
+    });
+    it("step reset only resets on a new lowest row", () => {
+      const s = pipe(landed({ lockResetPolicy: "STEP" }), moveAt(100));
+      expect(s.active.lock.timerStart).toEqual(10);
+    });
+    it("infinite reset always resets", () => {
+      const s = pipe(
+        landed({ lockResetPolicy: "INFINITE" }),
+        moveAt(100),
+        moveAt(200),
+        moveAt(300)
+      );
+      expect(s.active.lock.timerStart).toEqual(300);
+    });
+    it("no lock delay locks as soon as the tetromino lands", () => {
+      const s = new Tick(20).apply(landed({ lockResetPolicy: "NONE" }));
+      expect(s.metrics.lockCount).toEqual(1);
+    });
+  });
+
+  describe("Piece sets", () => {
+    const lowestFilledRow = (tetromino: Tetromino) =>
+      tetromino.pos.y +
+      tetromino.grid.cells
+        .map((row) => row.some((c) => c.filled))
+        .lastIndexOf(true);
+
+    it("defines the standard tetrominoes from their tables", () => {
+      const T = getTetromino(new Pos(0, 0), "T");
+      expect(T.grid.cells).toEqual(Tetrominos.T);
+    });
+    it("deals every pentomino once per bag", () => {
+      const pentominoes = getPieceTypes("PENTOMINOES");
+      const bag = peek(getRandomizer("BAG_7", 3, pentominoes).next(), 12);
+      expect([...bag].sort()).toEqual([...pentominoes].sort());
+    });
+    it("spawns pieces of the configured set in the top visible row", () => {
+      const state = getFreshState(0, { pieces: "SMALL" });
+      [state.active.tetromino, ...state.next.queue].forEach((tetromino) => {
+        expect(Object.keys(PieceSets.SMALL)).toContain(tetromino.type);
+        expect(lowestFilledRow(tetromino)).toBeLessThanOrEqual(
+          state.config.bufferHeight
+        );
+        expect(lowestFilledRow(tetromino)).toBeGreaterThanOrEqual(
+          state.config.bufferHeight - 1
+        );
+      });
+    });
+    it("plays user-defined pieces", () => {
+      const state = getFreshState(0, {
+        pieces: {
+          BIG: {
+            shape: [
+              [1, 1, 1],
+              [1, 1, 1],
+              [1, 1, 1],
+            ],
+            color: Colors.GRAY,
+            kicks: [[[0, 0]], [[0, 0]], [[0, 0]], [[0, 0]]],
+            spawnOffset: [0, 0],
+          },
+        },
+      });
+      expect(state.active.tetromino.type).toEqual("BIG");
+      const s = new HardDrop().apply(new Rotate(1).apply(state));
+      expect(
+        filledCells(s.playField.grid)
+          .slice(-3)
+          .map((row) => row.filter((filled) => filled).length)
+      ).toEqual([3, 3, 3]);
+    });
+    it("scores a 5-row clear with I5 as a tetris", () => {
+      const state = getFreshState(0, {
+        mode: "PUZZLE",
+        pieces: "PENTOMINOES",
+        puzzle: {
+          board: Array(5).fill("####.#####"),
+          sequence: ["I5"],
+          hold: null,
+          goal: { type: "CLEAR_LINES", count: 5 },
+        },
+      });
+      const s = new HardDrop().apply(new Rotate(1).apply(state));
+      expect(s.metrics.rowsCleared).toEqual(5);
+      expect(s.metrics.prevClearAction).toEqual("TETRIS");
+      expect(s.metrics.clearAction).toEqual("PERFECT_CLEAR_TETRIS");
+      expect(s.metrics.perfectClears).toEqual(1);
+      expect(Number.isFinite(s.metrics.score)).toBe(true);
+    });
+    it("checks piece types against the piece set", () => {
+      expect(getPieceType("TETROMINOES", "T")).toEqual("T");
+      expect(getPieceType("TETROMINOES", "T ")).toBeNull();
+      expect(getPieceType("TETROMINOES", "T5")).toBeNull();
+      expect(getPieceType("PENTOMINOES", "T5")).toEqual("T5");
+    });
+    it("rotates other pieces in their box in classic rotation systems", () => {
+      (["NRS", "ARS"] as const).forEach((type) =>
+        expect(
+          getRotationSystem(type, "PENTOMINOES").getGrid("T5", 1).cells
+        ).toEqual(
+          getRotationSystem("SRS", "PENTOMINOES").getGrid("T5", 1).cells
+        )
+      );
+    });
+  });
+
+  describe("Puzzle mode", () => {
+    const puzzleState = (puzzle: Partial<Puzzle>) =>
+      getFreshState(0, {
+        mode: "PUZZLE",
+        puzzle: {
+          board: ["###....###"],
+          sequence: ["I"],
+          hold: null,
+          goal: { type: "CLEAR_LINES", count: 1 },
+          ...puzzle,
+        },
+      });
+
+    it("deals a fixed sequence in order", () => {
+      expect(peek(new SequenceRandomizer(0, ["T", "I"]).next(), 3)).toEqual([
+        "T",
+        "I",
+        "T",
+      ]);
+    });
+    it("loads the board, sequence and hold piece", () => {
+      const state = puzzleState({ sequence: ["T", "S", "Z"], hold: "O" });
+      expect(filledCells(state.playField.grid).slice(-1)).toEqual([
+        [1, 1, 1, 0, 0, 0, 0, 1, 1, 1],
+      ]);
+      expect(state.active.tetromino.type).toEqual("T");
+      expect(state.next.queue.map((t) => t.type)).toEqual(["S", "Z"]);
+      expect(state.hold.tetromino!.type).toEqual("O");
+    });
+    it("parses a puzzle from JSON", () => {
+      const puzzle: Puzzle = {
+        board: ["#########."],
+        sequence: ["I", "T"],
+        hold: "O",
+        goal: { type: "CLEAR_LINES", count: 1 },
+      };
+      expect(parsePuzzle(JSON.stringify(puzzle), DefaultGameConfig)).toEqual(
+        puzzle
+      );
+    });
+    it("rejects a malformed puzzle", () => {
+      const puzzle = {
+        board: ["#########."],
+        sequence: ["I"],
+        hold: null,
+        goal: { type: "CLEAR_LINES", count: 1 },
+      };
+      const parse = (json: string) => parsePuzzle(json, DefaultGameConfig);
+      expect(parse('{"board":["###')).toBeNull();
+      expect(parse("null")).toBeNull();
+      expect(parse(JSON.stringify({ ...puzzle, goal: undefined }))).toBeNull();
+      expect(parse(JSON.stringify({ ...puzzle, board: [1] }))).toBeNull();
+      expect(
+        parse(JSON.stringify({ ...puzzle, board: ["#".repeat(11)] }))
+      ).toBeNull();
+      expect(parse(JSON.stringify({ ...puzzle, sequence: ["T5"] }))).toBeNull();
+      expect(parse(JSON.stringify({ ...puzzle, sequence: [] }))).toBeNull();
+      expect(
+        parse(JSON.stringify({ ...puzzle, goal: { type: "WIN", count: 1 } }))
+      ).toBeNull();
+    });
+    it("is solved when the goal is reached", () => {
+      const s = reduceState(puzzleState({}), new HardDrop());
+      expect(s.gameEnd).toEqual(true);
+      expect(s.gameEndReason).toEqual("COMPLETED");
+    });
+    it("fails when the pieces run out", () => {
+      const s = reduceState(puzzleState({ sequence: ["O"] }), new HardDrop());
+      expect(s.gameEndReason).toEqual("FAILED");
+    });
+    it("plays the held piece last", () => {
+      const state = reduceState(
+        puzzleState({ sequence: ["O"], hold: "I" }),
+        new HardDrop()
+      );
+      expect(state.gameEnd).toEqual(false);
+      expect(state.active.tetromino.type).toEqual("I");
+      expect(reduceState(state, new HardDrop()).gameEndReason).toEqual(
+        "FAILED"
+      );
+    });
+    it("retries from the start at any time", () => {
+      const state = puzzleState({ sequence: ["O", "T"] });
+      const s = reduceState(reduceState(state, new HardDrop()), new Restart());
+      expect(s.active.tetromino.type).toEqual("O");
+      expect(filledCells(s.playField.grid)).toEqual(
+        filledCells(state.playField.grid)
+      );
+    });
+  });
+
+  describe("Board editor", () => {
+    const editing = reduceState(getFreshState(0), new Edit());
+    // bottom left cell of the visible playField
+    const corner = new Pos(0.05, 0.99);
+    const applyAll = (state: State, ...effects: Effect[]) =>
+      effects.reduce(reduceState, state);
+
+    it("pauses the game on the current pieces while editing", () => {
+      const s = applyAll(editing, new Tick(5000), new HardDrop());
+      expect(s.active.tetromino).toEqual(editing.active.tetromino);
+      expect(s.editor.sequence).toEqual(
+        [editing.active.tetromino, ...editing.next.queue].map((t) => t.type)
+      );
+    });
+    it("paints and erases cells with the brush", () => {
+      const bottomRow = (s: State) =>
+        s.playField.grid.cells[s.playField.height - 1];
+      const garbage = applyAll(editing, new Paint(corner));
+      expect(bottomRow(garbage)[0].color).toEqual(Colors.GRAY);
+      const t = applyAll(garbage, new EditBrush("T"), new Paint(corner));
+      expect(bottomRow(t)[0].color).toEqual(PieceSets.TETROMINOES.T.color);
+      const erased = applyAll(t, new EditBrush(null), new Paint(corner));
+      expect(bottomRow(erased)[0].filled).toEqual(0);
+    });
+    it("exports the position as a puzzle", () => {
+      const s = applyAll(
+        editing,
+        new Paint(corner),
+        new EditBrush("T"),
+        new Paint(new Pos(0.15, 0.99)),
+        new EditQueue(["I", "NOT_A_PIECE"]),
+        new EditHold("O")
+      );
+      expect(exportPuzzle(s)).toEqual({
+        board: ["#T........"],
+        sequence: ["I"],
+        hold: "O",
+        goal: DefaultGameConfig.puzzle.goal,
+      });
+    });
+    it("plays the edited position", () => {
+      const s = applyAll(
+        editing,
+        new Paint(corner),
+        new EditQueue(["T", "I"]),
+        new EditHold("O"),
+        new PlayEdited()
+      );
+      expect(s.editor.editing).toEqual(false);
+      expect(s.active.tetromino.type).toEqual("T");
+      expect(s.next.queue[0].type).toEqual("I");
+      expect(s.hold.tetromino!.type).toEqual("O");
+      expect(filledCells(s.playField.grid).slice(-1)[0][0]).toEqual(1);
+    });
+    it("plays the edited position as a puzzle in puzzle mode", () => {
+      const puzzle = reduceState(
+        getFreshState(0, { mode: "PUZZLE" }),
+        new Edit()
+      );
+      const s = applyAll(puzzle, new EditQueue(["T"]), new PlayEdited());
+      expect(s.config.puzzle.sequence).toEqual(["T"]);
+      expect(s.next.queue).toEqual([]);
+      expect(filledCells(s.playField.grid)).toEqual(
+        filledCells(puzzle.playField.grid)
+      );
+    });
+  });
+
+  describe("Key bindings", () => {
+    const storage = (saved: Nullable<string>) => ({ getItem: () => saved });
+
+    it("moves a key bound to another action", () => {
+      const bindings = bindKey(DefaultKeyBindings, "HARD_DROP", "KeyC");
+      expect(getConflict(DefaultKeyBindings, "HARD_DROP", "KeyC")).toEqual({
+        key: "KeyC",
+        action: "HOLD",
+      });
+      expect(bindings.HARD_DROP).toEqual(["Space", "KeyC"]);
+      expect(bindings.HOLD).toEqual([]);
+      expect(getConflict(bindings, "HARD_DROP", "KeyC")).toEqual(null);
+    });
+    it("clears the keys of an action", () => {
+      expect(clearKeys(DefaultKeyBindings, "MOVE_LEFT").MOVE_LEFT).toEqual([]);
+    });
+    it("loads saved bindings over the defaults", () => {
+      const saved = new Map<string, string>();
+      saveKeyBindings(
+        { setItem: (key, value) => saved.set(key, value) },
+        bindKey(DefaultKeyBindings, "MOVE_LEFT", "KeyJ")
+      );
+      const loaded = loadKeyBindings({
+        getItem: (key) => saved.get(key) ?? null,
+      });
+      expect(loaded.MOVE_LEFT).toEqual(["KeyA", "ArrowLeft", "KeyJ"]);
+      expect(
+        loadKeyBindings(storage('{"HOLD":["KeyV"],"PAUSE":"KeyP"}'))
+      ).toEqual({ ...DefaultKeyBindings, HOLD: ["KeyV"] });
+    });
+    it("falls back to the defaults", () => {
+      expect(loadKeyBindings(storage(null))).toEqual(DefaultKeyBindings);
+      expect(loadKeyBindings(storage("not json"))).toEqual(DefaultKeyBindings);
+    });
+    it("lists the default bindings in the README", () => {
+      expect(readFileSync("README.md", "utf8")).toContain(
+        formatKeyBindings(DefaultKeyBindings, DefaultButtonBindings)
+      );
+    });
+  });
+
+  describe("Handling", () => {
+    const handlingState = (handling: Partial<Handling>) =>
+      getFreshState(0, {
+        handling: { ...DefaultHandling, ...handling },
+      });
+    const tickTo = (state: State, ...times: number[]) =>
+      times.reduce((s, time) => reduceState(s, new Tick(time)), state);
+    const x = (s: State) => s.active.tetromino.pos.x;
+
+    it("repeats a held move every ARR once DAS is charged", () => {
+      const state = handlingState({ das: 100, arr: 20 });
+      const held = reduceState(state, new HeldInput("MOVE_RIGHT", true));
+      expect(x(held)).toEqual(x(state) + 1);
+      expect(x(tickTo(held, 90))).toEqual(x(state) + 1);
+      expect(x(tickTo(held, 90, 100))).toEqual(x(state) + 2);
+      expect(x(tickTo(held, 90, 100, 120))).toEqual(x(state) + 3);
+      const released = reduceState(
+        tickTo(held, 100),
+        new HeldInput("MOVE_RIGHT", false)
+      );
+      expect(x(tickTo(released, 200))).toEqual(x(state) + 2);
+    });
+    it("moves to the wall with an ARR of 0", () => {
+      const state = handlingState({ das: 50, arr: 0 });
+      const held = reduceState(state, new HeldInput("MOVE_LEFT", true));
+      const s = tickTo(held, 50);
+      expect(colliding(s)(s.active.tetromino.translate(new Pos(-1, 0)))).toBe(
+        true
+      );
+    });
+    it("multiplies gravity by the SDF, or sonic drops with Infinity", () => {
+      const state = handlingState({ sdf: Infinity });
+      const s = tickTo(
+        reduceState(state, new HeldInput("SOFT_DROP", true)),
+        10
+      );
+      const rows = s.active.tetromino.pos.y - state.active.tetromino.pos.y;
+      expect(s.active.tetromino.pos.y).toEqual(s.active.ghost.pos.y);
+      expect(s.metrics.score).toEqual(rows * ScoringRules.SOFT_DROP);
+      expect(s.phase.type).not.toEqual("ENTRY");
+    });
+    it("does not repeat moves during the DAS cut", () => {
+      const state = {
+        ...handlingState({ das: 0, arr: 20 }),
+        autoShift: { start: 0, shifted: null, resume: 100 },
+        heldActions: ["MOVE_RIGHT"] as const,
+      };
+      expect(x(tickTo(state, 50))).toEqual(x(state));
+      expect(x(tickTo(state, 50, 100))).toEqual(x(state) + 1);
+    });
+    it("starts the DAS charge again on spawn unless it is preserved", () => {
+      const charged = (preserveDas: boolean) =>
+        Lock.cutAutoShift({
+          ...handlingState({ dasCut: 30, preserveDas }),
+          autoShift: { start: 0, shifted: 150, resume: 0 },
+          metrics: { ...handlingState({}).metrics, currentTime: 200 },
+        }).autoShift;
+      expect(charged(true)).toEqual({ start: 0, shifted: 150, resume: 230 });
+      expect(charged(false)).toEqual({
+        start: 200,
+        shifted: null,
+        resume: 230,
+      });
+    });
+    it("saves and loads the handling, keeping valid values", () => {
+      const saved = new Map<string, string>();
+      const handling = ["-5", "abc", ""].reduce(
+        (h, value) => setHandlingValue(h, "das", value),
+        setHandlingValue(
+          setHandlingValue(DefaultHandling, "arr", "0"),
+          "sdf",
+          "∞"
+        )
+      );
+      saveHandling(
+        { setItem: (key, value) => saved.set(key, value) },
+        handling
+      );
+      expect(
+        loadHandling({ getItem: (key) => saved.get(key) ?? null })
+      ).toEqual({ ...DefaultHandling, arr: 0, sdf: Infinity });
+    });
+  });
+
+  describe("Horizontal input", () => {
+    const state = getFreshState(0, {
+      handling: { ...DefaultHandling, das: 100, arr: 20 },
+    });
+    const applyAll = (s: State, ...effects: Effect[]) =>
+      effects.reduce(reduceState, s);
+    const x = (s: State) => s.active.tetromino.pos.x;
+
+    it("moves in the last pressed direction", () => {
+      const s = applyAll(
+        state,
+        new HeldInput("MOVE_LEFT", true),
+        new Tick(50),
+        new HeldInput("MOVE_RIGHT", true)
+      );
+      expect(getShiftDirection(s)).toEqual(1);
+      expect(x(s)).toEqual(x(state));
+      // only the right move repeats, once charged from its own press
+      expect(x(applyAll(s, new Tick(140)))).toEqual(x(state));
+      expect(x(applyAll(s, new Tick(150)))).toEqual(x(state) + 1);
+    });
+    it("resumes the still held direction with its DAS charged", () => {
+      const s = applyAll(
+        state,
+        new HeldInput("MOVE_LEFT", true),
+        new HeldInput("MOVE_RIGHT", true),
+        new Tick(20),
+        new HeldInput("MOVE_RIGHT", false)
+      );
+      expect(getShiftDirection(s)).toEqual(-1);
+      expect(x(applyAll(s, new Tick(30)))).toEqual(x(state) - 1);
+    });
+    it("keeps the charge when the other direction is released", () => {
+      const s = applyAll(
+        state,
+        new HeldInput("MOVE_LEFT", true),
+        new HeldInput("MOVE_RIGHT", true),
+        new HeldInput("MOVE_LEFT", false),
+        new Tick(90)
+      );
+      expect(x(s)).toEqual(x(state));
+    });
+    it("charges DAS while the tetromino cannot move", () => {
+      const paused = { ...state, gamePaused: true };
+      const s = reduceState(paused, new HeldInput("MOVE_RIGHT", true));
+      expect(x(s)).toEqual(x(state));
+      // held through an entry delay, the spawned tetromino moves at once
+      const delayed: State = {
+        ...s,
+        gamePaused: false,
+        phase: { type: "ENTRY", startTime: 0 },
+        config: { ...s.config, entryDelay: 100 },
+      };
+      const spawned = applyAll(delayed, new Tick(100));
+      expect(spawned.phase.type).toEqual("FALLING");
+      expect(x(spawned)).toEqual(
+        x(applyAll({ ...delayed, heldActions: [] }, new Tick(100))) + 1
+      );
+    });
+  });
+
+  describe("Gamepad", () => {
+    const gamepad = (
+      pressed: ReadonlyArray<number>,
+      axes: ReadonlyArray<number> = [0, 0]
+    ): GamepadState => ({
+      buttons: Array.from({ length: 17 }, (_, i) => ({
+        pressed: pressed.includes(i),
+      })),
+      axes: axes,
+    });
+
+    it("maps the pressed buttons of any gamepad to actions", () => {
+      expect(
+        getPressedActions(
+          [null, gamepad([0, 15]), gamepad([4])],
+          DefaultButtonBindings
+        )
+      ).toEqual(["MOVE_RIGHT", "ROTATE_CW", "HOLD"]);
+      expect(getPressedActions([], DefaultButtonBindings)).toEqual([]);
+    });
+    it("maps the left stick past the deadzone", () => {
+      expect(
+        getPressedActions([gamepad([], [-0.8, 0.6])], DefaultButtonBindings)
+      ).toEqual(["MOVE_LEFT", "SOFT_DROP"]);
+      expect(
+        getPressedActions([gamepad([], [0.3, -1])], DefaultButtonBindings)
+      ).toEqual([]);
+    });
+    it("uses the button bindings", () => {
+      const bindings = bindKey(DefaultButtonBindings, "HARD_DROP", 0);
+      expect(getPressedActions([gamepad([0])], bindings)).toEqual([
+        "HARD_DROP",
+      ]);
+      const saved = new Map<string, string>();
+      saveButtonBindings(
+        { setItem: (key, value) => saved.set(key, value) },
+        bindings
+      );
+      expect(
+        loadButtonBindings({ getItem: (key) => saved.get(key) ?? null })
+      ).toEqual(bindings);
+    });
+    it("emits presses and releases between polls", async () => {
+      expect(
+        getActionInputs(["MOVE_LEFT", "HOLD"], ["HOLD", "SOFT_DROP"])
+      ).toEqual([
+        { action: "MOVE_LEFT", pressed: false },
+        { action: "SOFT_DROP", pressed: true },
+      ]);
+      const polls = [[], [14], [14, 13], [13]].map((pressed) => [
+        gamepad(pressed),
+      ]);
+      const inputs = await firstValueFrom(
+        fromGamepad(
+          () => polls.shift() ?? [],
+          of(DefaultButtonBindings),
+          1
+        ).pipe(take(4), toArray())
+      );
+      expect(inputs).toEqual([
+        { action: "MOVE_LEFT", pressed: true },
+        { action: "SOFT_DROP", pressed: true },
+        { action: "MOVE_LEFT", pressed: false },
+        { action: "SOFT_DROP", pressed: false },
+      ]);
+    });
+  });
+
+  describe("Touch gestures", () => {
+    const cellWidth = 20;
+    const gesture = (
+      x: number,
+      y: number,
+      time: number,
+      fingers: number = 1,
+      ended: boolean = false
+    ): TouchGesture => ({
+      start: { x: 100, y: 100, time: 0 },
+      last: { x: 100 + x, y: 100 + y, time: time },
+      fingers: fingers,
+      ended: ended,
+    });
+
+    it("drags a cell at a time", () => {
+      expect(
+        getGestures(gesture(0, 0, 0), gesture(45, 5, 50), cellWidth)
+      ).toEqual(["DRAG_RIGHT", "DRAG_RIGHT"]);
+      expect(
+        getGestures(gesture(45, 5, 50), gesture(-25, 5, 90), cellWidth)
+      ).toEqual(["DRAG_LEFT", "DRAG_LEFT", "DRAG_LEFT"]);
+      expect(
+        getGestures(gesture(45, 5, 50), gesture(50, 5, 60), cellWidth)
+      ).toEqual([]);
+    });
+    it("taps with one or two fingers", () => {
+      expect(getEndGesture(gesture(3, 2, 100, 1, true), cellWidth)).toEqual(
+        "TAP"
+      );
+      expect(getEndGesture(gesture(0, 0, 100, 2, true), cellWidth)).toEqual(
+        "TWO_FINGER_TAP"
+      );
+      // a long press is not a tap
+      expect(getEndGesture(gesture(0, 0, 600, 1, true), cellWidth)).toEqual(
+        null
+      );
+    });
+    it("flicks down to hard drop", () => {
+      expect(
+        getGestures(gesture(5, 30, 80), gesture(5, 90, 120, 1, true), cellWidth)
+      ).toEqual(["FLICK"]);
+      // too slow, or more sideways than down
+      expect(getEndGesture(gesture(0, 90, 800, 1, true), cellWidth)).toEqual(
+        null
+      );
+      expect(
+        getGestures(gesture(0, 0, 0), gesture(70, 50, 120, 1, true), cellWidth)
+      ).toEqual(["DRAG_RIGHT", "DRAG_RIGHT", "DRAG_RIGHT"]);
+    });
+    it("does not drag with two fingers down", () => {
+      expect(
+        getGestures(gesture(10, 0, 50), gesture(60, 0, 90, 2), cellWidth)
+      ).toEqual([]);
     });
   });
 });